@@ -1,15 +1,68 @@
-import React, { useState, useEffect } from 'react';
-import { TEMPLATES } from './constants';
-import { TableTemplate, SimulationConfig, RowData } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { TEMPLATES, DEFAULT_ROSTER, ANOMALY_SCENARIOS } from './constants';
+import { TableTemplate, SimulationConfig, RowData, RowProvenance, CellSource, StaffMember, LlmSettings, PdfExportOptions, MonthProgress, QualityReport, GenerationOptions, ScenarioLibrary, ScriptedIncident, AnalysisMode } from './types';
 import SmartTable from './components/SmartTable';
+import { useTableHistory } from './hooks/useTableHistory';
+import { coerceCellValue } from './services/validation';
 import ControlPanel from './components/ControlPanel';
 import { Tooltip } from './components/Tooltip';
 import { DocumentationPanel } from './components/DocumentationPanel';
-import { generateTableData, analyzeFileAndGenerate, fixDataRows } from './services/geminiService';
+import { SettingsDialog } from './components/SettingsDialog';
+import { PdfExportDialog } from './components/PdfExportDialog';
+import { CsvImportDialog } from './components/CsvImportDialog';
+import { QualitySummary } from './components/QualitySummary';
+import { AutoFixReviewDialog } from './components/AutoFixReviewDialog';
+import { RosterDialog } from './components/RosterDialog';
+import { ScenarioDialog } from './components/ScenarioDialog';
+import { TemplateDesigner, createBlankTemplate, cloneTemplate } from './components/TemplateDesigner';
+import { generateTableData, analyzeFileAndGenerate, fixDataRows, isAbortError } from './services/geminiService';
+import { generateLocalTableData, fixLocalDataRows } from './services/localGenerator';
+import { loadLlmSettings, saveLlmSettings } from './services/llmProvider';
+import { downloadText, downloadBlob, toFileSlug } from './services/fileDownload';
+import { exportTableToXlsx, exportMonthsToXlsx, MonthSheet } from './services/xlsxExport';
+import { exportTableToPdf, DEFAULT_PDF_EXPORT_OPTIONS, formatTargetMonth } from './services/pdfExport';
+import { exportMonthsToZip } from './services/archiveExport';
+import { listMonths, shiftMonth, isRangeConfig } from './services/monthRange';
+import { mergeQualityReports } from './services/responseValidation';
+import { diffFixedRows, applyCellChanges, CellChange } from './services/autoFixReview';
+import { trackProvenance, trackDeletedRows, applyConfidenceFlags, confirmCells, ProvenanceStamp } from './services/provenance';
+import { checkRosterName } from './services/roster';
+import { CellCheck } from './services/validation';
+import {
+    serializeTemplatePackage,
+    parseTemplatePackage,
+    findConflictingTemplates,
+    mergeImportedTemplates
+} from './services/templatePackage';
+import {
+    SavedSheet,
+    getSheetKey,
+    loadSheet,
+    saveSheet,
+    listRecentSheets,
+    deleteSheetsForTemplate,
+    loadCustomTemplates,
+    saveCustomTemplates,
+    loadConfig,
+    saveConfig,
+    loadActiveTemplateId,
+    saveActiveTemplateId,
+    loadPdfExportOptions,
+    savePdfExportOptions,
+    loadEditorName,
+    saveEditorName,
+    loadRoster,
+    saveRoster,
+    loadScenarios,
+    saveScenarios,
+    loadIncidents,
+    saveIncidents
+} from './services/workspaceStore';
 import { 
     Layout, 
     FileSpreadsheet, 
     Upload, 
+    ScanText,
     ChevronRight,
     Sparkles,
     Download,
@@ -18,27 +71,90 @@ import {
     Sun,
     Trash2,
     Menu,
-    X
+    X,
+    Settings,
+    History,
+    Undo2,
+    Redo2,
+    LayoutTemplate,
+    Pencil,
+    Copy,
+    FileJson,
+    FileUp,
+    ChevronDown,
+    Sheet,
+    FileDown,
+    FileArchive,
+    Users
 } from 'lucide-react';
 
 const DEFAULT_CONFIG: SimulationConfig = {
   fillRate: 100,
   anomalyChance: 5,
   mode: 'realistic',
-  targetMonth: new Date().toISOString().slice(0, 7) // Defaults to current YYYY-MM
+  targetMonth: new Date().toISOString().slice(0, 7), // Defaults to current YYYY-MM
+  engine: 'ai'
 };
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<'generator' | 'documentation'>('generator');
   const [activeTemplate, setActiveTemplate] = useState<TableTemplate>(TEMPLATES[0]);
-  const [tableData, setTableData] = useState<RowData[]>([]);
+  // Every table mutation goes through the history so it can be undone
+  const {
+    rows: tableData,
+    provenance: tableProvenance,
+    deletedRows: tableDeletedRows,
+    commit: commitTableData,
+    commitProvenance,
+    reset: resetTableData,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel
+  } = useTableHistory();
   const [config, setConfig] = useState<SimulationConfig>(DEFAULT_CONFIG);
   const [isGenerating, setIsGenerating] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState<string>('');
+  const [rangeProgress, setRangeProgress] = useState<MonthProgress[]>([]);
+  const [qualitySummary, setQualitySummary] = useState<{ title: string; report: QualityReport } | null>(null);
+  // Rows shown while a generation streams in; the finished result is committed to history
+  const [streamingRows, setStreamingRows] = useState<RowData[] | null>(null);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  // Adds a cell change log to XLSX exports
+  const [includeAuditSheet, setIncludeAuditSheet] = useState(false);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; text: string } | null>(null);
+  // Recorded on every cell this person changes
+  const [editorName, setEditorName] = useState('');
+  const [roster, setRoster] = useState<StaffMember[]>(DEFAULT_ROSTER);
+  const [showRoster, setShowRoster] = useState(false);
+  const [scenarios, setScenarios] = useState<ScenarioLibrary>(ANOMALY_SCENARIOS);
+  // Scripted incidents by template id
+  const [incidentsByTemplate, setIncidentsByTemplate] = useState<Record<string, ScriptedIncident[]>>({});
+  const [showScenarios, setShowScenarios] = useState(false);
+  // AutoFix proposals waiting for a supervisor to accept or reject them cell by cell
+  const [autoFixReview, setAutoFixReview] = useState<CellChange[] | null>(null);
+  const [pdfOptions, setPdfOptions] = useState<PdfExportOptions>(DEFAULT_PDF_EXPORT_OPTIONS);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
   
   // Changed from single object to array to support multiple custom sheets
   const [customTemplates, setCustomTemplates] = useState<TableTemplate[]>([]);
+  // Template currently open in the designer (null when the generator is shown)
+  const [designerState, setDesignerState] = useState<{ template: TableTemplate; isNew: boolean } | null>(null);
+
+  // Persistent workspace: nothing is written back until the saved state has been restored
+  const [isWorkspaceReady, setIsWorkspaceReady] = useState(false);
+  const [recentSheets, setRecentSheets] = useState<SavedSheet[]>([]);
+  // Key of the sheet currently shown in the table; autosave only targets this key
+  const loadedSheetKeyRef = useRef<string | null>(null);
+  // Rows and provenance as restored from the store, before any edit
+  const loadedSnapshotRef = useRef<{ rows: RowData[]; provenance: RowProvenance[] } | null>(null);
+  // Controller of the AI run in progress, so Cancel can abort it
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     if (typeof window !== 'undefined') {
@@ -62,10 +178,162 @@ const App: React.FC = () => {
     setTheme(prev => prev === 'dark' ? 'light' : 'dark');
   };
 
-  // Reset data when template changes
+  const handleSaveSettings = (settings: LlmSettings, editor: string) => {
+    saveLlmSettings(settings);
+    setLlmSettings(settings);
+    setEditorName(editor);
+    saveEditorName(editor).catch(error => console.error("Failed to save editor name", error));
+    setShowSettings(false);
+  };
+
+  const handleSaveRoster = (staff: StaffMember[]) => {
+    setRoster(staff);
+    saveRoster(staff).catch(error => console.error("Failed to save roster", error));
+    setShowRoster(false);
+  };
+
+  const activeIncidents = incidentsByTemplate[activeTemplate.id] || [];
+
+  const handleSaveScenarios = (library: ScenarioLibrary, incidents: ScriptedIncident[]) => {
+    const nextIncidents = { ...incidentsByTemplate, [activeTemplate.id]: incidents };
+    setScenarios(library);
+    setIncidentsByTemplate(nextIncidents);
+    saveScenarios(library).catch(error => console.error("Failed to save scenarios", error));
+    saveIncidents(nextIncidents).catch(error => console.error("Failed to save incidents", error));
+    setShowScenarios(false);
+  };
+
+  // Person cells naming someone off the roster, or not on shift that day
+  const rosterChecks = useMemo(() => {
+    const checks: Record<string, CellCheck> = {};
+    tableData.forEach((row, rowIndex) => {
+        activeTemplate.columns.forEach(col => {
+            const check = checkRosterName(activeTemplate, row, col, roster, config.targetMonth);
+            if (check) checks[`${rowIndex}:${col.key}`] = check;
+        });
+    });
+    return checks;
+  }, [tableData, activeTemplate, roster, config.targetMonth]);
+
+  const stampFor = (source: CellSource, editor = editorName): ProvenanceStamp => ({ source, editor: editor || undefined });
+  const generatedStamp = () => stampFor(config.engine === 'offline' ? 'offline' : 'ai');
+
+  // Restore templates, settings and the last active sheet from the workspace store
+  useEffect(() => {
+    const restoreWorkspace = async () => {
+        try {
+            const [savedTemplates, savedConfig, savedActiveId, recent, savedPdfOptions, savedEditorName, savedRoster, savedScenarios, savedIncidents] = await Promise.all([
+                loadCustomTemplates(),
+                loadConfig(),
+                loadActiveTemplateId(),
+                listRecentSheets(),
+                loadPdfExportOptions(),
+                loadEditorName(),
+                loadRoster(),
+                loadScenarios(),
+                loadIncidents()
+            ]);
+            setCustomTemplates(savedTemplates);
+            if (savedConfig) setConfig({ ...DEFAULT_CONFIG, ...savedConfig });
+            const savedActive = [...TEMPLATES, ...savedTemplates].find(t => t.id === savedActiveId);
+            if (savedActive) setActiveTemplate(savedActive);
+            setRecentSheets(recent);
+            if (savedPdfOptions) setPdfOptions({ ...DEFAULT_PDF_EXPORT_OPTIONS, ...savedPdfOptions });
+            if (savedEditorName) setEditorName(savedEditorName);
+            if (savedRoster) setRoster(savedRoster);
+            if (savedScenarios) setScenarios(savedScenarios);
+            if (savedIncidents) setIncidentsByTemplate(savedIncidents);
+        } catch (error) {
+            console.error("Failed to restore workspace", error);
+        } finally {
+            setIsWorkspaceReady(true);
+        }
+    };
+    restoreWorkspace();
+  }, []);
+
+  // Restore the saved sheet when the template or target month changes
+  useEffect(() => {
+    if (!isWorkspaceReady) return;
+    let cancelled = false;
+    loadedSheetKeyRef.current = null;
+
+    loadSheet(activeTemplate.id, config.targetMonth)
+        .then(sheet => {
+            if (cancelled) return;
+            const loaded = { rows: sheet?.rows || [], provenance: sheet?.provenance || [] };
+            resetTableData(loaded.rows, loaded.provenance, sheet?.deletedRows);
+            loadedSnapshotRef.current = loaded;
+            loadedSheetKeyRef.current = getSheetKey(activeTemplate.id, config.targetMonth);
+        })
+        .catch(error => console.error("Failed to load sheet", error));
+
+    return () => { cancelled = true; };
+  }, [activeTemplate.id, config.targetMonth, isWorkspaceReady]);
+
+  // Autosave table rows (debounced) to the sheet they belong to
+  useEffect(() => {
+    const sheetKey = loadedSheetKeyRef.current;
+    if (!sheetKey || sheetKey !== getSheetKey(activeTemplate.id, config.targetMonth)) return;
+    // Opening a sheet is not an edit; saving it would only reorder the recent sheets.
+    // After the first edit every change is saved, including an undo back to the loaded rows.
+    const loaded = loadedSnapshotRef.current;
+    if (loaded && tableData === loaded.rows && tableProvenance === loaded.provenance) return;
+    loadedSnapshotRef.current = null;
+
+    const timer = setTimeout(() => {
+        saveSheet(activeTemplate, config.targetMonth, tableData, tableProvenance, tableDeletedRows)
+            .then(() => listRecentSheets())
+            .then(setRecentSheets)
+            .catch(error => console.error("Failed to save sheet", error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [tableData, tableProvenance]);
+
+  useEffect(() => {
+    if (!isWorkspaceReady) return;
+    saveConfig(config).catch(error => console.error("Failed to save settings", error));
+  }, [config, isWorkspaceReady]);
+
+  useEffect(() => {
+    if (!isWorkspaceReady) return;
+    saveCustomTemplates(customTemplates).catch(error => console.error("Failed to save custom sheets", error));
+  }, [customTemplates, isWorkspaceReady]);
+
   useEffect(() => {
-    setTableData([]);
-  }, [activeTemplate]);
+    if (!isWorkspaceReady) return;
+    saveActiveTemplateId(activeTemplate.id).catch(error => console.error("Failed to save active sheet", error));
+  }, [activeTemplate.id, isWorkspaceReady]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo table changes; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || isGenerating) return;
+        const target = e.target as HTMLElement | null;
+        if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            undo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            redo();
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, isGenerating]);
+
+  const handleOpenRecentSheet = (sheet: SavedSheet) => {
+    const template = [...TEMPLATES, ...customTemplates].find(t => t.id === sheet.templateId);
+    if (!template) {
+        alert("The template for this sheet is no longer available.");
+        return;
+    }
+    setActiveTemplate(template);
+    setConfig(prev => ({ ...prev, targetMonth: sheet.targetMonth }));
+  };
 
   const handleApiError = (error: any) => {
     console.error(error);
@@ -79,7 +347,7 @@ const App: React.FC = () => {
         "For more information, visit ai.google.dev/gemini-api/docs/rate-limits"
       );
     } else if (msg.includes("API key") || code === 400) {
-        alert("API Error: The API key is invalid or expired. Please check your environment configuration.\n\nDetails: " + msg);
+        alert("API Error: The API key is invalid or expired. Please check your environment configuration or AI provider settings.\n\nDetails: " + msg);
     } else if (code === 503) {
         alert("Service Unavailable: The AI model is currently overloaded. Please try again in a few moments.");
     } else {
@@ -87,75 +355,257 @@ const App: React.FC = () => {
     }
   };
 
+  const generateRows = (monthConfig: SimulationConfig, currentRows: RowData[], onProgress: (msg: string) => void, options: GenerationOptions) =>
+    monthConfig.engine === 'offline'
+        ? generateLocalTableData(activeTemplate, monthConfig, currentRows, onProgress, { ...options, roster, scenarios, incidents: activeIncidents })
+        : generateTableData(activeTemplate, monthConfig, currentRows, onProgress, { ...options, roster, scenarios, incidents: activeIncidents });
+
+  const startCancellableRun = (): AbortSignal => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    setLoadingMessage('Cancelling...');
+  };
+
+  // After a cancel, offer to keep the rows that were finished before it
+  const confirmKeepPartialRows = (error: unknown): RowData[] | null => {
+    const rows = isAbortError(error) ? error.partialRows || [] : [];
+    return rows.length > 0 && confirm(`Generation cancelled.\n\nKeep the ${rows.length} row(s) completed so far?`) ? rows : null;
+  };
+
   const handleGenerate = async () => {
+    if (isRangeConfig(config)) {
+        await handleGenerateRange();
+        return;
+    }
     setIsGenerating(true);
-    setLoadingMessage("Initializing AI model...");
+    setRangeProgress([]);
+    setQualitySummary(null);
+    setLoadingMessage(config.engine === 'offline' ? "Preparing offline generator..." : "Initializing AI model...");
+    const signal = startCancellableRun();
+    // Logged readings stay put; only their gaps are generated
+    const fillBlanks = !!config.keepExisting && tableData.length > 0;
+    const label = fillBlanks ? 'Fill empty cells' : 'Generate table';
     try {
-        const rows = await generateTableData(
-            activeTemplate, 
-            config, 
-            tableData,
-            (msg) => setLoadingMessage(msg)
-        );
-        setTableData(rows);
+        const rows = await generateRows(config, tableData, (msg) => setLoadingMessage(msg), {
+            scope: fillBlanks ? { kind: 'blanks' } : undefined,
+            onQualityReport: (report) => setQualitySummary({ title: label, report }),
+            onRows: setStreamingRows,
+            signal,
+        });
+        commitTableData(label, rows, generatedStamp());
+    } catch (error) {
+        if (signal.aborted) {
+            const kept = confirmKeepPartialRows(error);
+            if (kept) commitTableData(`${label} (partial)`, kept, generatedStamp());
+        } else {
+            handleApiError(error);
+        }
+    } finally {
+        abortControllerRef.current = null;
+        setIsGenerating(false);
+        setStreamingRows(null);
+        setLoadingMessage('');
+    }
+  };
+
+  // Generates every month of the range in order; each month continues from the previous one
+  const handleGenerateRange = async () => {
+    const months = listMonths(config.targetMonth, config.endMonth);
+    const overwriteNote = config.keepExisting
+        ? 'Values already in these sheets are kept; only empty cells are filled.'
+        : 'Saved sheets for these months will be overwritten.';
+    if (!confirm(`Generate ${months.length} months (${months[0]} to ${months[months.length - 1]})?\n\n${overwriteNote}`)) return;
+
+    const updateProgress = (month: string, update: Partial<MonthProgress>) =>
+        setRangeProgress(prev => prev.map(p => p.month === month ? { ...p, ...update } : p));
+
+    setIsGenerating(true);
+    setRangeProgress(months.map(month => ({ month, status: 'pending' })));
+    setQualitySummary(null);
+    const signal = startCancellableRun();
+    const failures: string[] = [];
+    let lastError: unknown;
+    // One summary for the whole run, accumulated month by month
+    const addQualityReport = (report: QualityReport) => setQualitySummary(prev => ({
+        title: `Generate ${months.length} months`,
+        report: prev ? mergeQualityReports(prev.report, report) : report,
+    }));
+
+    const storeMonth = async (month: string, rows: RowData[], label: string) => {
+        if (month === config.targetMonth) {
+            // The month on screen goes through history so it can be undone
+            commitTableData(label, rows, generatedStamp());
+            setStreamingRows(null);
+        } else {
+            // Other months are saved directly; their provenance is tracked against the saved sheet
+            const saved = await loadSheet(activeTemplate.id, month);
+            const stamp = generatedStamp();
+            const provenance = trackProvenance(saved?.rows || [], saved?.provenance || [], rows, stamp);
+            const deletedRows = [...(saved?.deletedRows || []), ...trackDeletedRows(saved?.rows || [], saved?.provenance || [], rows, stamp)];
+            await saveSheet(activeTemplate, month, rows, provenance, deletedRows);
+        }
+    };
+
+    try {
+        // Continue from an existing sheet for the month before the range, if there is one
+        let previousRows = (await loadSheet(activeTemplate.id, shiftMonth(months[0], -1)))?.rows;
+
+        for (let i = 0; i < months.length && !signal.aborted; i++) {
+            const month = months[i];
+            const prefix = `Month ${i + 1} of ${months.length} (${formatTargetMonth(month)})`;
+            updateProgress(month, { status: 'running' });
+            setLoadingMessage(`${prefix}...`);
+            try {
+                const currentRows = !config.keepExisting ? []
+                    : month === config.targetMonth ? tableData
+                    : (await loadSheet(activeTemplate.id, month))?.rows || [];
+                const rows = await generateRows({ ...config, targetMonth: month }, currentRows, (msg) => setLoadingMessage(`${prefix}: ${msg}`), {
+                    previousRows,
+                    scope: currentRows.length > 0 ? { kind: 'blanks' } : undefined,
+                    onQualityReport: addQualityReport,
+                    // Only the month on screen is rendered live
+                    onRows: month === config.targetMonth ? setStreamingRows : undefined,
+                    signal,
+                });
+                await storeMonth(month, rows, 'Generate table');
+                previousRows = rows;
+                updateProgress(month, { status: 'done', rowCount: rows.length });
+            } catch (error: any) {
+                if (signal.aborted) {
+                    // Months already finished stay saved; the current one is kept only on request
+                    const kept = confirmKeepPartialRows(error);
+                    if (kept) await storeMonth(month, kept, 'Generate table (partial)');
+                    updateProgress(month, { status: 'failed', rowCount: kept?.length, error: 'Cancelled' });
+                    break;
+                }
+                console.error(`Failed to generate ${month}`, error);
+                lastError = error;
+                failures.push(month);
+                updateProgress(month, { status: 'failed', error: error?.message || String(error) });
+            }
+        }
+        setRecentSheets(await listRecentSheets());
     } catch (error) {
         handleApiError(error);
     } finally {
+        abortControllerRef.current = null;
         setIsGenerating(false);
+        setStreamingRows(null);
         setLoadingMessage('');
     }
+
+    if (signal.aborted) return;
+    if (failures.length === months.length) {
+        handleApiError(lastError);
+    } else if (failures.length > 0) {
+        alert(`${failures.length} of ${months.length} months could not be generated: ${failures.join(', ')}.\n\nThe other months were saved. You can re-run the failed months individually.`);
+    }
   };
 
   const handleDataChange = (rowIndex: number, key: string, value: string) => {
-    const newData = [...tableData];
-    newData[rowIndex] = { ...newData[rowIndex], [key]: value };
-    setTableData(newData);
+    const newValue = coerceCellValue(value, activeTemplate.columns.find(c => c.key === key));
+    commitTableData('Edit cell', prev => {
+        if (!prev[rowIndex] || (prev[rowIndex][key] ?? null) === newValue) return prev;
+        const newData = [...prev];
+        newData[rowIndex] = { ...newData[rowIndex], [key]: newValue };
+        return newData;
+    }, stampFor('manual'));
   };
 
   const handleDeleteRows = (indices: number[]) => {
       // Confirmation is now handled in the SmartTable component for better UI flow
-      setTableData(prev => prev.filter((_, idx) => !indices.includes(idx)));
+      commitTableData(`Delete ${indices.length} row(s)`, prev => prev.filter((_, idx) => !indices.includes(idx)), stampFor('manual'));
   };
 
   const handleBulkUpdate = (indices: number[], key: string, value: string) => {
-      setTableData(prev => {
+      const newValue = coerceCellValue(value, activeTemplate.columns.find(c => c.key === key));
+      commitTableData(`Bulk update ${indices.length} row(s)`, prev => {
           const newData = [...prev];
           indices.forEach(idx => {
               if (newData[idx]) {
-                  newData[idx] = { ...newData[idx], [key]: value };
+                  newData[idx] = { ...newData[idx], [key]: newValue };
               }
           });
           return newData;
-      });
+      }, stampFor('manual'));
   };
   
-  const handleAutoFix = async (indices: number[]) => {
+  const handleAutoFix = async (indices: number[], engine: SimulationConfig['engine'] = 'ai') => {
     if (indices.length === 0) return;
     
     setIsGenerating(true);
     setLoadingMessage(`Analyzing ${indices.length} rows for compliance issues...`);
+    const signal = startCancellableRun();
     
     try {
         // 1. Extract the rows to fix
-        const rowsToFix = indices.map(idx => tableData[idx]).filter(Boolean);
+        const validIndices = indices.filter(idx => tableData[idx]);
+        const rowsToFix = validIndices.map(idx => tableData[idx]);
         
-        // 2. Call AI service
-        const fixedRows = await fixDataRows(rowsToFix, activeTemplate);
-        
-        // 3. Merge back into state
-        setTableData(prev => {
-            const newData = [...prev];
-            indices.forEach((originalIndex, i) => {
-                if (fixedRows[i]) {
-                    newData[originalIndex] = fixedRows[i];
-                }
+        // 2. Fix them by column rules, or call the AI service
+        const fixedRows = engine === 'offline'
+            ? fixLocalDataRows(rowsToFix, activeTemplate, scenarios)
+            : await fixDataRows(rowsToFix, activeTemplate, {
+                onQualityReport: (report) => setQualitySummary({ title: 'AutoFix', report }),
+                signal,
             });
-            return newData;
+        
+        // 3. Nothing is merged until the proposals have been reviewed
+        const changes = diffFixedRows(activeTemplate, validIndices, rowsToFix, fixedRows);
+        if (changes.length === 0) {
+            alert('AutoFix did not propose any changes for the selected rows.');
+        } else {
+            setAutoFixReview(changes);
+        }
+    } catch (error) {
+        // A cancelled AutoFix leaves the rows untouched
+        if (!signal.aborted) handleApiError(error);
+    } finally {
+        abortControllerRef.current = null;
+        setIsGenerating(false);
+        setLoadingMessage('');
+    }
+  };
+
+  // Writes only the accepted cells, as a single undoable step
+  const handleApplyAutoFix = (accepted: CellChange[], reviewer: string) => {
+    commitTableData(`AutoFix ${accepted.length} cell(s), signed off by ${reviewer}`, prev => applyCellChanges(prev, accepted), stampFor('autofix', reviewer));
+    setAutoFixReview(null);
+  };
+
+  // Regenerates whole rows picked in the table; the rest of the sheet is passed along as context
+  const handleRegenerateRows = async (indices: number[]) => {
+    if (indices.length === 0) return;
+    const label = `Regenerate ${indices.length} row(s)`;
+
+    setIsGenerating(true);
+    setQualitySummary(null);
+    setLoadingMessage(`Regenerating ${indices.length} rows...`);
+    const signal = startCancellableRun();
+    try {
+        const rows = await generateRows(config, tableData, (msg) => setLoadingMessage(msg), {
+            scope: { kind: 'rows', rowIndices: indices },
+            onQualityReport: (report) => setQualitySummary({ title: label, report }),
+            onRows: setStreamingRows,
+            signal,
         });
+        commitTableData(label, rows, generatedStamp());
     } catch (error) {
-        handleApiError(error);
+        if (signal.aborted) {
+            const kept = confirmKeepPartialRows(error);
+            if (kept) commitTableData(`${label} (partial)`, kept, generatedStamp());
+        } else {
+            handleApiError(error);
+        }
     } finally {
+        abortControllerRef.current = null;
         setIsGenerating(false);
+        setStreamingRows(null);
         setLoadingMessage('');
     }
   };
@@ -167,10 +617,34 @@ const App: React.FC = () => {
         if (activeTemplate.id === id) {
             setActiveTemplate(TEMPLATES[0]);
         }
+        deleteSheetsForTemplate(id)
+            .then(() => listRecentSheets())
+            .then(setRecentSheets)
+            .catch(error => console.error("Failed to delete saved sheets", error));
+    }
+  };
+
+  const handleOpenDesigner = (mode: 'new' | 'edit' | 'clone') => {
+    if (mode === 'new') {
+        setDesignerState({ template: createBlankTemplate(), isNew: true });
+    } else if (mode === 'clone') {
+        setDesignerState({ template: cloneTemplate(activeTemplate), isNew: true });
+    } else {
+        setDesignerState({ template: activeTemplate, isNew: false });
     }
+    setCurrentView('generator');
+  };
+
+  const handleSaveTemplate = (template: TableTemplate) => {
+    setCustomTemplates(prev => prev.some(t => t.id === template.id)
+        ? prev.map(t => t.id === template.id ? template : t)
+        : [...prev, template]);
+    setActiveTemplate(template);
+    setDesignerState(null);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // 'extract' transcribes the sheet as written for digitising paper logs; 'generate' simulates new rows
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, mode: AnalysisMode = 'generate') => {
       const file = e.target.files?.[0];
       if (!file) return;
 
@@ -182,31 +656,43 @@ const App: React.FC = () => {
           const mimeType = file.type;
           
           setIsGenerating(true);
-          setLoadingMessage("Analyzing document structure...");
+          setLoadingMessage(mode === 'extract' ? "Transcribing document..." : "Analyzing document structure...");
+          const signal = startCancellableRun();
           try {
-              const result = await analyzeFileAndGenerate(pureBase64, mimeType, config);
+              const result = await analyzeFileAndGenerate(pureBase64, mimeType, config, {
+                  onQualityReport: (report) => setQualitySummary({ title: `${mode === 'extract' ? 'Transcribe' : 'Analyze'} ${file.name}`, report }),
+                  signal,
+                  scenarios,
+                  mode,
+              });
               
               // Construct a new temporary template from result with a unique ID
               const newTemplate: TableTemplate = {
                   id: 'custom-' + Date.now(),
                   name: result.template.name || file.name.replace(/\.[^/.]+$/, ""),
-                  description: 'Imported from ' + file.name,
+                  description: (mode === 'extract' ? 'Transcribed from ' : 'Imported from ') + file.name,
                   context: 'Custom uploaded table context based on file analysis.',
                   columns: result.template.columns as any || [],
                   defaultRows: result.rows.length || 10,
                   aiRules: 'Follow structure extracted from the uploaded file.',
               };
               
+              // Save the extracted rows first so switching to the new sheet restores them
+              const extractedRows = result.rows || [];
+              const uploadStamp = stampFor('upload');
+              const provenance = applyConfidenceFlags(trackProvenance([], [], extractedRows, uploadStamp), result.flags, uploadStamp);
+              await saveSheet(newTemplate, config.targetMonth, extractedRows, provenance);
+
               // Add to the list of custom templates
               setCustomTemplates(prev => [...prev, newTemplate]);
               
               // Set as active and populate data
               setActiveTemplate(newTemplate);
-              setTableData(result.rows);
               setCurrentView('generator'); 
           } catch (err) {
-              handleApiError(err);
+              if (!signal.aborted) handleApiError(err);
           } finally {
+              abortControllerRef.current = null;
               setIsGenerating(false);
               setLoadingMessage('');
               // Reset input value to allow re-uploading the same file if needed
@@ -216,7 +702,13 @@ const App: React.FC = () => {
       reader.readAsDataURL(file);
   };
 
+  // Scanned cells someone checked against the original keep their value and lose the flag
+  const handleConfirmCells = (cells: { row: number; key: string }[]) => {
+    commitProvenance(cells.length === 1 ? 'Confirm scanned cell' : `Confirm ${cells.length} scanned cells`, provenance => confirmCells(provenance, cells));
+  };
+
   const handleExportCSV = () => {
+    setShowExportMenu(false);
     if (tableData.length === 0) {
         alert("No data available to export. Please generate data first.");
         return;
@@ -236,21 +728,143 @@ const App: React.FC = () => {
     }).join('\n');
 
     const csvContent = `${headers}\n${rows}`;
-    
-    // Create Blob and download link
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    
-    const cleanName = activeTemplate.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
     const dateStr = new Date().toISOString().slice(0, 10);
-    link.setAttribute('download', `${cleanName}_${dateStr}.csv`);
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadText(csvContent, `${toFileSlug(activeTemplate.name)}_${dateStr}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  const handleExportXLSX = async () => {
+    setShowExportMenu(false);
+    if (tableData.length === 0) {
+        alert("No data available to export. Please generate data first.");
+        return;
+    }
+    try {
+        const blob = await exportTableToXlsx(activeTemplate, tableData, config.targetMonth, includeAuditSheet ? tableProvenance : undefined, tableDeletedRows);
+        downloadBlob(blob, `${toFileSlug(activeTemplate.name)}_${config.targetMonth}.xlsx`);
+    } catch (error: any) {
+        console.error("Failed to export XLSX", error);
+        alert("Failed to create the Excel file.\n\nError: " + (error?.message || error));
+    }
+  };
+
+  // Saved sheets for every month of the range; the month on screen uses the live table
+  const collectRangeSheets = async (): Promise<MonthSheet[]> => {
+    const months = listMonths(config.targetMonth, config.endMonth);
+    const sheets = await Promise.all(months.map(async month => {
+        const saved = month === config.targetMonth
+            ? { rows: tableData, provenance: tableProvenance, deletedRows: tableDeletedRows }
+            : await loadSheet(activeTemplate.id, month);
+        return {
+            month,
+            rows: saved?.rows || [],
+            provenance: includeAuditSheet ? saved?.provenance || [] : undefined,
+            deletedRows: saved?.deletedRows,
+        };
+    }));
+    return sheets.filter(sheet => sheet.rows.length > 0);
+  };
+
+  const handleExportRange = async (format: 'xlsx' | 'zip') => {
+    setShowExportMenu(false);
+    try {
+        const sheets = await collectRangeSheets();
+        if (sheets.length === 0) {
+            alert("None of the months in the selected range have data yet. Please generate them first.");
+            return;
+        }
+        const rangeName = `${toFileSlug(activeTemplate.name)}_${sheets[0].month}_to_${sheets[sheets.length - 1].month}`;
+        if (format === 'xlsx') {
+            downloadBlob(await exportMonthsToXlsx(activeTemplate, sheets), `${rangeName}.xlsx`);
+        } else {
+            downloadBlob(await exportMonthsToZip(activeTemplate, sheets, pdfOptions), `${rangeName}.zip`);
+        }
+    } catch (error: any) {
+        console.error("Failed to export range", error);
+        alert("Failed to export the selected months.\n\nError: " + (error?.message || error));
+    }
+  };
+
+  const handleOpenPdfExport = () => {
+    setShowExportMenu(false);
+    if (tableData.length === 0) {
+        alert("No data available to export. Please generate data first.");
+        return;
+    }
+    setShowPdfExport(true);
+  };
+
+  const handleExportPDF = (options: PdfExportOptions) => {
+    setPdfOptions(options);
+    setShowPdfExport(false);
+    savePdfExportOptions(options).catch(error => console.error("Failed to save PDF options", error));
+    try {
+        const blob = exportTableToPdf(activeTemplate, tableData, config.targetMonth, options);
+        downloadBlob(blob, `${toFileSlug(activeTemplate.name)}_${config.targetMonth}.pdf`);
+    } catch (error: any) {
+        console.error("Failed to export PDF", error);
+        alert("Failed to create the PDF.\n\nError: " + (error?.message || error));
+    }
+  };
+
+  const handleCsvFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Reset input value to allow re-importing the same file
+    e.target.value = '';
+    try {
+        setCsvImport({ fileName: file.name, text: await file.text() });
+    } catch (error) {
+        console.error("Failed to read file", error);
+        alert(`Could not read "${file.name}".`);
+    }
+  };
+
+  const handleCsvImport = (rows: RowData[], mode: 'replace' | 'append') => {
+    const fileName = csvImport?.fileName || 'file';
+    commitTableData(`Import ${rows.length} row(s) from ${fileName}`, prev => mode === 'append' ? [...prev, ...rows] : rows, stampFor('import'));
+    setCsvImport(null);
+  };
+
+  const handleExportTemplates = (templates: TableTemplate[]) => {
+    const fileName = templates.length === 1
+        ? `${toFileSlug(templates[0].name)}.template.json`
+        : `smartfill_templates_${new Date().toISOString().slice(0, 10)}.json`;
+    downloadText(serializeTemplatePackage(templates), fileName, 'application/json');
+  };
+
+  const handleImportTemplates = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Reset input value to allow re-importing the same file
+    e.target.value = '';
+
+    let imported: TableTemplate[];
+    try {
+        imported = parseTemplatePackage(await file.text());
+    } catch (error: any) {
+        alert(`Could not import "${file.name}".\n\n${error.message}`);
+        return;
+    }
+
+    const conflicts = findConflictingTemplates(imported, customTemplates);
+    const replaceExisting = conflicts.length > 0 && confirm(
+        `${conflicts.length} template(s) in this file already exist in My Sheets:\n` +
+        conflicts.map(t => `• ${t.name}`).join('\n') +
+        `\n\nPress OK to replace them, or Cancel to import them as copies.`
+    );
+    const result = mergeImportedTemplates(imported, customTemplates, TEMPLATES, replaceExisting);
+    setCustomTemplates(result.templates);
+
+    const replacedActive = result.templates.find(t => t.id === activeTemplate.id);
+    if (replacedActive && replacedActive !== activeTemplate) setActiveTemplate(replacedActive);
+
+    const summary = [
+        result.added.length > 0 && `Added: ${result.added.join(', ')}`,
+        result.replaced.length > 0 && `Replaced: ${result.replaced.join(', ')}`,
+        result.renamed.length > 0 && `Imported as copies: ${result.renamed.join(', ')}`,
+        result.skipped.length > 0 && `Already up to date: ${result.skipped.join(', ')}`,
+    ].filter(Boolean).join('\n');
+    alert(`Imported ${imported.length} template(s) from "${file.name}".\n\n${summary}`);
   };
 
   return (
@@ -288,6 +902,22 @@ const App: React.FC = () => {
 
               <div className="h-4 w-px bg-slate-300 dark:bg-slate-700 hidden md:block"></div>
               
+              <button 
+                onClick={() => setShowRoster(true)} 
+                className="p-2 text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100 transition-colors"
+                title="Staff Roster"
+              >
+                <Users className="w-5 h-5" />
+              </button>
+
+              <button 
+                onClick={() => setShowSettings(true)} 
+                className="p-2 text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100 transition-colors"
+                title="Settings"
+              >
+                <Settings className="w-5 h-5" />
+              </button>
+
               <button 
                 onClick={toggleTheme} 
                 className="p-2 text-slate-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100 transition-colors"
@@ -325,6 +955,64 @@ const App: React.FC = () => {
         )}
       </header>
 
+      {showRoster && (
+          <RosterDialog
+              roster={roster}
+              onSave={handleSaveRoster}
+              onClose={() => setShowRoster(false)}
+          />
+      )}
+
+      {showScenarios && (
+          <ScenarioDialog
+              template={activeTemplate}
+              scenarios={scenarios}
+              incidents={activeIncidents}
+              onSave={handleSaveScenarios}
+              onClose={() => setShowScenarios(false)}
+          />
+      )}
+
+      {showSettings && (
+          <SettingsDialog 
+              settings={llmSettings} 
+              editorName={editorName}
+              onSave={handleSaveSettings} 
+              onClose={() => setShowSettings(false)} 
+          />
+      )}
+
+      {showPdfExport && (
+          <PdfExportDialog
+              template={activeTemplate}
+              targetMonth={config.targetMonth}
+              options={pdfOptions}
+              onExport={handleExportPDF}
+              onClose={() => setShowPdfExport(false)}
+          />
+      )}
+
+      {csvImport && (
+          <CsvImportDialog
+              template={activeTemplate}
+              fileName={csvImport.fileName}
+              text={csvImport.text}
+              hasExistingRows={tableData.length > 0}
+              onImport={handleCsvImport}
+              onClose={() => setCsvImport(null)}
+          />
+      )}
+
+      {autoFixReview && (
+          <AutoFixReviewDialog
+              template={activeTemplate}
+              rows={tableData}
+              changes={autoFixReview}
+              onApply={handleApplyAutoFix}
+              onClose={() => setAutoFixReview(null)}
+          />
+      )}
+
       {/* Main Container - Responsive Layout */}
       {/* On Mobile: auto height for natural scrolling. On Desktop: fixed height with internal scrolling */}
       <div className="flex flex-col lg:flex-row flex-1 max-w-7xl mx-auto w-full p-4 lg:p-6 gap-6 lg:h-[calc(100vh-64px)] h-auto">
@@ -334,6 +1022,16 @@ const App: React.FC = () => {
            <div className="w-full h-full">
               <DocumentationPanel />
            </div>
+        ) : designerState ? (
+           <div className="w-full h-full">
+              <TemplateDesigner
+                  key={designerState.template.id}
+                  template={designerState.template}
+                  isNew={designerState.isNew}
+                  onSave={handleSaveTemplate}
+                  onCancel={() => setDesignerState(null)}
+              />
+           </div>
         ) : (
            /* Render Generator View */
            <>
@@ -350,7 +1048,8 @@ const App: React.FC = () => {
                             <Tooltip key={t.id} content={t.description} className="block flex-shrink-0 lg:w-full">
                                 <button
                                     onClick={() => setActiveTemplate(t)}
-                                    className={`flex-shrink-0 w-auto lg:w-full flex items-center justify-between px-3 py-2 text-sm font-medium rounded-full lg:rounded-lg transition-colors border lg:border-none whitespace-nowrap ${
+                                    disabled={isGenerating}
+                                    className={`flex-shrink-0 w-auto lg:w-full flex items-center justify-between px-3 py-2 text-sm font-medium rounded-full lg:rounded-lg transition-colors border lg:border-none whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed ${
                                         activeTemplate.id === t.id 
                                         ? 'bg-indigo-50 text-indigo-700 border-indigo-200 dark:bg-indigo-900/30 dark:text-indigo-300 dark:border-indigo-800' 
                                         : 'bg-white dark:bg-slate-900 lg:bg-transparent border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800/50'
@@ -374,7 +1073,8 @@ const App: React.FC = () => {
                                      <div className="relative group w-auto lg:w-full flex-shrink-0">
                                          <button
                                             onClick={() => setActiveTemplate(t)}
-                                            className={`w-auto lg:w-full flex items-center justify-between px-3 py-2 text-sm font-medium rounded-full lg:rounded-lg transition-colors border lg:border-none pr-8 whitespace-nowrap ${
+                                            disabled={isGenerating}
+                                            className={`w-auto lg:w-full flex items-center justify-between px-3 py-2 text-sm font-medium rounded-full lg:rounded-lg transition-colors border lg:border-none pr-8 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed ${
                                                 activeTemplate.id === t.id 
                                                 ? 'bg-indigo-50 text-indigo-700 border-indigo-200 dark:bg-indigo-900/30 dark:text-indigo-300 dark:border-indigo-800' 
                                                 : 'bg-white dark:bg-slate-900 lg:bg-transparent border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800/50'
@@ -385,7 +1085,8 @@ const App: React.FC = () => {
                                         </button>
                                         <button 
                                             onClick={(e) => handleDeleteCustomTemplate(e, t.id)}
-                                            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-red-500 dark:hover:text-red-400 lg:opacity-0 group-hover:opacity-100 transition-opacity"
+                                            disabled={isGenerating}
+                                            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-red-500 dark:hover:text-red-400 lg:opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
                                             title="Delete Sheet"
                                         >
                                             <Trash2 className="w-3.5 h-3.5" />
@@ -397,6 +1098,36 @@ const App: React.FC = () => {
                     </div>
                 )}
 
+                {/* Recently Saved Sheets */}
+                {recentSheets.length > 0 && (
+                    <div className="space-y-2 pt-2 lg:pt-0 border-t lg:border-t-0 border-slate-200 dark:border-slate-800">
+                         <h2 className="text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wider px-2 hidden lg:flex items-center gap-1.5">
+                            <History className="w-3 h-3" />
+                            Recent Sheets
+                         </h2>
+                         <nav className="flex lg:flex-col overflow-x-auto lg:overflow-visible gap-2 lg:gap-1 pb-2 lg:pb-0 scrollbar-hide -mx-4 px-4 lg:mx-0 lg:px-0">
+                             {recentSheets.map(sheet => {
+                                 const isOpen = activeTemplate.id === sheet.templateId && config.targetMonth === sheet.targetMonth;
+                                 return (
+                                     <button
+                                        key={sheet.id}
+                                        onClick={() => handleOpenRecentSheet(sheet)}
+                                        disabled={isGenerating}
+                                        className={`flex-shrink-0 w-auto lg:w-full flex flex-col items-start px-3 py-2 text-left rounded-lg transition-colors border lg:border-none disabled:opacity-50 disabled:cursor-not-allowed ${
+                                            isOpen
+                                            ? 'bg-indigo-50 text-indigo-700 border-indigo-200 dark:bg-indigo-900/30 dark:text-indigo-300 dark:border-indigo-800'
+                                            : 'bg-white dark:bg-slate-900 lg:bg-transparent border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800/50'
+                                        }`}
+                                     >
+                                         <span className="text-sm font-medium truncate max-w-[150px] lg:max-w-[200px]">{sheet.templateName}</span>
+                                         <span className="text-[10px] text-slate-400 dark:text-slate-500">{sheet.targetMonth} · {sheet.rows.length} rows</span>
+                                     </button>
+                                 );
+                             })}
+                         </nav>
+                    </div>
+                )}
+
                 {/* Mobile: Upload Button as part of the horizontal flow or separate block */}
                 <div className="bg-indigo-50 dark:bg-slate-800/50 p-4 rounded-xl border border-indigo-100 dark:border-slate-700">
                     <h3 className="text-indigo-900 dark:text-indigo-300 font-semibold text-sm mb-2 hidden lg:block">Add New Sheet</h3>
@@ -406,9 +1137,44 @@ const App: React.FC = () => {
                             <Upload className="w-3 h-3 mr-2" />
                             <span className="lg:hidden">Import Table</span>
                             <span className="hidden lg:inline">Upload PDF / Image</span>
-                            <input type="file" className="hidden" accept="image/*,application/pdf" onChange={handleFileUpload} />
+                            <input type="file" className="hidden" accept="image/*,application/pdf" onChange={(e) => handleFileUpload(e)} />
                         </label>
                     </Tooltip>
+                    <Tooltip content="Digitise a filled-in paper log: values are transcribed as written, never invented, and unclear cells are flagged for checking." className="w-full block mt-2">
+                        <label className="cursor-pointer flex items-center justify-center w-full py-2 px-3 bg-white dark:bg-slate-800 border border-indigo-200 dark:border-slate-600 rounded-lg text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors shadow-sm whitespace-nowrap">
+                            <ScanText className="w-3 h-3 mr-2" />
+                            Digitise Filled Sheet
+                            <input type="file" className="hidden" accept="image/*,application/pdf" onChange={(e) => handleFileUpload(e, 'extract')} />
+                        </label>
+                    </Tooltip>
+                    <Tooltip content="Build a new log sheet template column by column." className="w-full block mt-2">
+                        <button
+                            onClick={() => handleOpenDesigner('new')}
+                            className="flex items-center justify-center w-full py-2 px-3 bg-white dark:bg-slate-800 border border-indigo-200 dark:border-slate-600 rounded-lg text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors shadow-sm whitespace-nowrap"
+                        >
+                            <LayoutTemplate className="w-3 h-3 mr-2" />
+                            Design Template
+                        </button>
+                    </Tooltip>
+                    <div className="flex gap-2 mt-2">
+                        <Tooltip content="Import templates from a SmartFill JSON package." className="flex-1 block">
+                            <label className="cursor-pointer flex items-center justify-center w-full py-2 px-3 bg-white dark:bg-slate-800 border border-indigo-200 dark:border-slate-600 rounded-lg text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors shadow-sm whitespace-nowrap">
+                                <FileUp className="w-3 h-3 mr-2" />
+                                Import
+                                <input type="file" className="hidden" accept="application/json,.json" onChange={handleImportTemplates} />
+                            </label>
+                        </Tooltip>
+                        <Tooltip content={customTemplates.length > 0 ? "Export all of My Sheets as one JSON package." : "Create or import a sheet first."} className="flex-1 block">
+                            <button
+                                onClick={() => handleExportTemplates(customTemplates)}
+                                disabled={customTemplates.length === 0}
+                                className="flex items-center justify-center w-full py-2 px-3 bg-white dark:bg-slate-800 border border-indigo-200 dark:border-slate-600 rounded-lg text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-slate-700 transition-colors shadow-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <FileJson className="w-3 h-3 mr-2" />
+                                Export All
+                            </button>
+                        </Tooltip>
+                    </div>
                 </div>
             </aside>
 
@@ -421,15 +1187,156 @@ const App: React.FC = () => {
                         <h2 className="text-lg lg:text-xl font-bold text-slate-900 dark:text-white truncate">{activeTemplate.name}</h2>
                         <p className="text-xs lg:text-sm text-slate-500 dark:text-slate-400 mt-1 truncate">{activeTemplate.description}</p>
                     </div>
-                    <Tooltip content="Download the current table data as a CSV file.">
-                        <button 
-                            onClick={handleExportCSV}
-                            className="flex items-center justify-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium transition-colors whitespace-nowrap w-full sm:w-auto"
-                        >
-                            <Download className="w-4 h-4" />
-                            Export CSV
-                        </button>
-                    </Tooltip>
+                    <div className="flex items-center gap-2 w-full sm:w-auto">
+                        <div className="flex items-center gap-1">
+                            {customTemplates.some(t => t.id === activeTemplate.id) && (
+                                <Tooltip content="Edit this template's columns and rules">
+                                    <button 
+                                        onClick={() => handleOpenDesigner('edit')}
+                                        disabled={isGenerating}
+                                        className="p-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                        aria-label="Edit template"
+                                    >
+                                        <Pencil className="w-4 h-4" />
+                                    </button>
+                                </Tooltip>
+                            )}
+                            <Tooltip content="Clone this template into a new editable sheet">
+                                <button 
+                                    onClick={() => handleOpenDesigner('clone')}
+                                    disabled={isGenerating}
+                                    className="p-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                    aria-label="Clone template"
+                                >
+                                    <Copy className="w-4 h-4" />
+                                </button>
+                            </Tooltip>
+                            <Tooltip content="Export this template as a JSON package to share it">
+                                <button 
+                                    onClick={() => handleExportTemplates([activeTemplate])}
+                                    className="p-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg transition-colors"
+                                    aria-label="Export template"
+                                >
+                                    <FileJson className="w-4 h-4" />
+                                </button>
+                            </Tooltip>
+                        </div>
+                        <div className="flex items-center gap-1">
+                            <Tooltip content={canUndo ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}>
+                                <button 
+                                    onClick={undo}
+                                    disabled={!canUndo || isGenerating}
+                                    className="p-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                    aria-label="Undo"
+                                >
+                                    <Undo2 className="w-4 h-4" />
+                                </button>
+                            </Tooltip>
+                            <Tooltip content={canRedo ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+                                <button 
+                                    onClick={redo}
+                                    disabled={!canRedo || isGenerating}
+                                    className="p-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                    aria-label="Redo"
+                                >
+                                    <Redo2 className="w-4 h-4" />
+                                </button>
+                            </Tooltip>
+                        </div>
+                        <Tooltip content="Import rows from a CSV or TSV file into this sheet.">
+                            <label className={`cursor-pointer flex items-center justify-center p-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg transition-colors ${isGenerating ? 'opacity-40 pointer-events-none' : ''}`} aria-label="Import CSV">
+                                <Upload className="w-4 h-4" />
+                                <input type="file" className="hidden" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleCsvFileSelect} />
+                            </label>
+                        </Tooltip>
+                        <div className="relative flex-1 sm:flex-none">
+                            <button 
+                                onClick={() => setShowExportMenu(!showExportMenu)}
+                                className="flex items-center justify-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium transition-colors whitespace-nowrap w-full sm:w-auto"
+                            >
+                                <Download className="w-4 h-4" />
+                                Export
+                                <ChevronDown className="w-3.5 h-3.5" />
+                            </button>
+                            {showExportMenu && (
+                                <>
+                                    <div className="fixed inset-0 z-30" onClick={() => setShowExportMenu(false)} />
+                                    <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg shadow-xl z-40 py-1">
+                                        <button 
+                                            onClick={handleExportXLSX}
+                                            className="flex items-start gap-2 w-full px-3 py-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800"
+                                        >
+                                            <Sheet className="w-4 h-4 mt-0.5 text-emerald-600 dark:text-emerald-400" />
+                                            <span>
+                                                <span className="block text-sm font-medium text-slate-700 dark:text-slate-200">Excel (XLSX)</span>
+                                                <span className="block text-[10px] text-slate-400">Grouped header and compliance colours</span>
+                                            </span>
+                                        </button>
+                                        <button 
+                                            onClick={handleOpenPdfExport}
+                                            className="flex items-start gap-2 w-full px-3 py-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800"
+                                        >
+                                            <FileDown className="w-4 h-4 mt-0.5 text-red-600 dark:text-red-400" />
+                                            <span>
+                                                <span className="block text-sm font-medium text-slate-700 dark:text-slate-200">PDF (print-ready)</span>
+                                                <span className="block text-[10px] text-slate-400">Paper form layout with signature block</span>
+                                            </span>
+                                        </button>
+                                        {isRangeConfig(config) && (
+                                            <>
+                                                <div className="border-t border-slate-100 dark:border-slate-800 my-1" />
+                                                <p className="px-3 pt-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider">Selected months</p>
+                                                <button 
+                                                    onClick={() => handleExportRange('xlsx')}
+                                                    className="flex items-start gap-2 w-full px-3 py-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800"
+                                                >
+                                                    <Sheet className="w-4 h-4 mt-0.5 text-emerald-600 dark:text-emerald-400" />
+                                                    <span>
+                                                        <span className="block text-sm font-medium text-slate-700 dark:text-slate-200">Workbook (one sheet per month)</span>
+                                                        <span className="block text-[10px] text-slate-400">{config.targetMonth} to {config.endMonth}</span>
+                                                    </span>
+                                                </button>
+                                                <button 
+                                                    onClick={() => handleExportRange('zip')}
+                                                    className="flex items-start gap-2 w-full px-3 py-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800"
+                                                >
+                                                    <FileArchive className="w-4 h-4 mt-0.5 text-amber-600 dark:text-amber-400" />
+                                                    <span>
+                                                        <span className="block text-sm font-medium text-slate-700 dark:text-slate-200">ZIP of monthly files</span>
+                                                        <span className="block text-[10px] text-slate-400">PDF and XLSX for each month</span>
+                                                    </span>
+                                                </button>
+                                                <div className="border-t border-slate-100 dark:border-slate-800 my-1" />
+                                            </>
+                                        )}
+                                        <button 
+                                            onClick={handleExportCSV}
+                                            className="flex items-start gap-2 w-full px-3 py-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800"
+                                        >
+                                            <FileText className="w-4 h-4 mt-0.5 text-slate-500" />
+                                            <span>
+                                                <span className="block text-sm font-medium text-slate-700 dark:text-slate-200">CSV</span>
+                                                <span className="block text-[10px] text-slate-400">Plain values, one header row</span>
+                                            </span>
+                                        </button>
+                                        <div className="border-t border-slate-100 dark:border-slate-800 my-1" />
+                                        <label className="flex items-start gap-2 w-full px-3 py-2 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800">
+                                            <input
+                                                type="checkbox"
+                                                checked={includeAuditSheet}
+                                                onChange={e => setIncludeAuditSheet(e.target.checked)}
+                                                className="mt-0.5 w-4 h-4 text-indigo-600 rounded border-slate-300 dark:border-slate-600"
+                                            />
+                                            <span>
+                                                <span className="block text-sm font-medium text-slate-700 dark:text-slate-200">Include audit sheet</span>
+                                                <span className="block text-[10px] text-slate-400">Cell change log in Excel exports</span>
+                                            </span>
+                                        </label>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    </div>
                 </div>
 
                 <div className="flex flex-col lg:flex-row gap-6 items-start h-full lg:overflow-hidden relative">
@@ -441,9 +1348,23 @@ const App: React.FC = () => {
                             onConfigChange={setConfig} 
                             onGenerate={handleGenerate}
                             isGenerating={isGenerating}
-                            onClear={() => setTableData([])}
+                            onClear={() => commitTableData('Clear table', [], stampFor('manual'))}
+                            rangeProgress={rangeProgress}
+                            onCancel={handleCancel}
+                            onOpenScenarios={() => setShowScenarios(true)}
+                            incidentCount={activeIncidents.length}
                         />
 
+                        {qualitySummary && (
+                            <div className="mt-6">
+                                <QualitySummary
+                                    title={qualitySummary.title}
+                                    report={qualitySummary.report}
+                                    onDismiss={() => setQualitySummary(null)}
+                                />
+                            </div>
+                        )}
+
                         <div className="mt-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700/50 rounded-xl hidden lg:block">
                             <h4 className="text-yellow-800 dark:text-yellow-500 font-semibold text-sm flex items-center gap-2 mb-2">
                                 <Layout className="w-4 h-4" />
@@ -459,13 +1380,18 @@ const App: React.FC = () => {
                     <div className="flex-1 w-full order-2 lg:order-1 overflow-x-auto overflow-y-auto h-full rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
                          <SmartTable 
                             columns={activeTemplate.columns} 
-                            data={tableData} 
+                            data={streamingRows ?? tableData} 
+                            provenance={streamingRows ? undefined : tableProvenance}
+                            rosterChecks={streamingRows ? undefined : rosterChecks}
+                            onCellsConfirm={handleConfirmCells}
                             isLoading={isGenerating} 
                             loadingMessage={loadingMessage}
                             onDataChange={handleDataChange}
                             onRowsDelete={handleDeleteRows}
                             onRowsUpdate={handleBulkUpdate}
                             onRowsAutoFix={handleAutoFix}
+                            onRowsRegenerate={handleRegenerateRows}
+                            onCancel={handleCancel}
                         />
                     </div>
                 </div>
@@ -0,0 +1,171 @@
+import React, { useState, useMemo } from 'react';
+import { TableTemplate, RowData } from '../types';
+import { CellChange, getRowKeyColumn } from '../services/autoFixReview';
+import { findOption, isEmptyValue } from '../services/validation';
+import { Wand2, X, CheckCircle2, AlertTriangle, ArrowRight } from 'lucide-react';
+
+interface AutoFixReviewDialogProps {
+  template: TableTemplate;
+  rows: RowData[]; // Current table, for row labels
+  changes: CellChange[];
+  onApply: (accepted: CellChange[], reviewer: string) => void;
+  onClose: () => void;
+}
+
+export const AutoFixReviewDialog: React.FC<AutoFixReviewDialogProps> = ({ template, rows, changes, onApply, onClose }) => {
+  const labelKey = getRowKeyColumn(template) ?? template.columns[0]?.key;
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(() => new Set(changes.map(c => c.id)));
+  const [reviewer, setReviewer] = useState('');
+
+  const columnsByKey = useMemo(() => new Map(template.columns.map(c => [c.key, c])), [template.columns]);
+  const changesByRow = useMemo(() => {
+    const groups = new Map<number, CellChange[]>();
+    changes.forEach(change => groups.set(change.rowIndex, [...(groups.get(change.rowIndex) || []), change]));
+    return Array.from(groups.entries()).sort((a, b) => a[0] - b[0]);
+  }, [changes]);
+
+  const accepted = changes.filter(c => acceptedIds.has(c.id));
+  const resolvedCount = accepted.filter(c => c.violationBefore && !c.violationAfter).length;
+  const violationCount = changes.filter(c => c.violationBefore).length;
+
+  const toggle = (ids: string[], on: boolean) => {
+    const next = new Set(acceptedIds);
+    ids.forEach(id => on ? next.add(id) : next.delete(id));
+    setAcceptedIds(next);
+  };
+
+  const formatValue = (change: CellChange, value: CellChange['before']) => {
+    if (isEmptyValue(value)) return <span className="italic text-slate-400">empty</span>;
+    const col = columnsByKey.get(change.key);
+    return col ? findOption(col, value)?.label ?? String(value) : String(value);
+  };
+
+  const getRowLabel = (rowIndex: number) => {
+    const value = labelKey ? rows[rowIndex]?.[labelKey] : null;
+    return isEmptyValue(value) ? `Row ${rowIndex + 1}` : `${columnsByKey.get(labelKey!)?.label || labelKey} ${value}`;
+  };
+
+  const handleApply = () => {
+    if (accepted.length === 0) return alert('Accept at least one change, or close the dialog to keep the rows as they are.');
+    if (!reviewer.trim()) return alert('Enter the name of the supervisor signing off these corrections.');
+    onApply(accepted, reviewer.trim());
+  };
+
+  const inputClass = "w-full px-2 py-1.5 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-md text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+  const buttonClass = "px-2 py-1 text-xs font-medium rounded-md border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800";
+
+  // No backdrop close: proposals (possibly a paid AI call) are only discarded through Discard or X
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 shadow-xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-slate-800">
+          <div>
+            <h3 className="text-base font-bold text-slate-900 dark:text-white flex items-center gap-2">
+              <Wand2 className="w-4 h-4 text-slate-500" />
+              Review AutoFix Changes
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+              {changes.length} proposed change(s) in {changesByRow.length} row(s) · {violationCount} on cells that break a rule
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Only ticked cells are written to the table. Unticked cells keep their current value.
+            </p>
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => toggle(changes.map(c => c.id), true)} className={buttonClass}>Accept All</button>
+              <button onClick={() => toggle(changes.map(c => c.id), false)} className={buttonClass}>Reject All</button>
+            </div>
+          </div>
+
+          <div className="border border-slate-200 dark:border-slate-800 rounded-lg overflow-hidden">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 dark:bg-slate-850 text-slate-500 dark:text-slate-400 uppercase">
+                <tr>
+                  <th className="px-3 py-2 w-8"></th>
+                  <th className="px-3 py-2 text-left">Column</th>
+                  <th className="px-3 py-2 text-left">Original</th>
+                  <th className="px-3 py-2 w-4"></th>
+                  <th className="px-3 py-2 text-left">Proposed</th>
+                </tr>
+              </thead>
+              {changesByRow.map(([rowIndex, rowChanges]) => {
+                const rowIds = rowChanges.map(c => c.id);
+                const allAccepted = rowIds.every(id => acceptedIds.has(id));
+                return (
+                  <tbody key={rowIndex}>
+                    <tr className="border-t border-slate-200 dark:border-slate-700 bg-slate-50/60 dark:bg-slate-800/40">
+                      <td className="px-3 py-1.5">
+                        <input type="checkbox" checked={allAccepted} onChange={e => toggle(rowIds, e.target.checked)} aria-label={`Accept all changes in ${getRowLabel(rowIndex)}`} />
+                      </td>
+                      <td colSpan={4} className="px-3 py-1.5 font-semibold text-slate-700 dark:text-slate-200">{getRowLabel(rowIndex)}</td>
+                    </tr>
+                    {rowChanges.map(change => {
+                      const col = columnsByKey.get(change.key);
+                      const resolves = change.violationBefore && !change.violationAfter;
+                      return (
+                        <tr key={change.id} className={`border-t border-slate-100 dark:border-slate-800 ${acceptedIds.has(change.id) ? '' : 'opacity-50'}`}>
+                          <td className="px-3 py-1.5 align-top">
+                            <input type="checkbox" checked={acceptedIds.has(change.id)} onChange={e => toggle([change.id], e.target.checked)} />
+                          </td>
+                          <td className="px-3 py-1.5 align-top text-slate-700 dark:text-slate-200">
+                            {col?.group && <span className="text-slate-400">{col.group} › </span>}
+                            {col?.label || change.key}
+                          </td>
+                          <td className="px-3 py-1.5 align-top">
+                            <div className={`font-mono ${change.violationBefore ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>{formatValue(change, change.before)}</div>
+                            {change.violationBefore && <div className="text-[11px] text-red-500 dark:text-red-400">{change.violationBefore}</div>}
+                          </td>
+                          <td className="px-1 py-1.5 align-top text-slate-300"><ArrowRight className="w-3 h-3 mt-0.5" /></td>
+                          <td className="px-3 py-1.5 align-top">
+                            <div className="font-mono text-slate-900 dark:text-white">{formatValue(change, change.after)}</div>
+                            {resolves && (
+                              <div className="text-[11px] text-emerald-600 dark:text-emerald-400 flex items-center gap-1">
+                                <CheckCircle2 className="w-3 h-3" /> Resolves: {change.violationBefore}
+                              </div>
+                            )}
+                            {change.violationAfter && (
+                              <div className="text-[11px] text-amber-600 dark:text-amber-400 flex items-center gap-1">
+                                <AlertTriangle className="w-3 h-3" /> Still fails: {change.violationAfter}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                );
+              })}
+            </table>
+          </div>
+
+          <div className="max-w-xs">
+            <label className="block text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase mb-1">Signed Off By</label>
+            <input value={reviewer} onChange={e => setReviewer(e.target.value)} placeholder="Supervisor name" className={inputClass} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-slate-100 dark:border-slate-800">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {accepted.length} of {changes.length} accepted · resolves {resolvedCount} violation(s)
+          </p>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-sm font-medium">
+              Discard
+            </button>
+            <button onClick={handleApply} className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-lg text-sm font-medium shadow-md">
+              <CheckCircle2 className="w-4 h-4" />
+              Apply {accepted.length} Change(s)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Column } from '../types';
+import { getCellStatus, describeRule, isEmptyValue, getColumnOptions } from '../services/validation';
+
+interface CellEditorProps {
+  column: Column;
+  value: string | number | null;
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+  onNavigate?: (direction: 'next' | 'prev') => void; // Tab / Shift+Tab after committing
+}
+
+const countDecimals = (n: number) => {
+  const str = String(n);
+  return str.includes('.') ? str.split('.')[1].length : 0;
+};
+
+// Step hint for numeric inputs derived from the column rule (e.g. 0.1 for pH 7.2-7.8)
+const getNumberStep = (column: Column): string => {
+  const rule = column.validation;
+  if (!rule || (rule.min === undefined && rule.max === undefined)) return 'any';
+  const bounds = [rule.min, rule.max].filter((n): n is number => n !== undefined);
+  const span = bounds.length === 2 ? bounds[1] - bounds[0] : bounds[0];
+  const decimals = Math.max(...bounds.map(countDecimals), Math.abs(span) <= 10 ? 1 : 0);
+  return String(Math.pow(10, -decimals));
+};
+
+export const CellEditor: React.FC<CellEditorProps> = ({ column, value, onCommit, onCancel, onNavigate }) => {
+  const [draft, setDraft] = useState<string>(isEmptyValue(value) ? '' : String(value));
+  const inputRef = useRef<HTMLInputElement & HTMLSelectElement>(null);
+  // Prevents the blur that follows Enter/Escape/Tab from committing a second time
+  const isDoneRef = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    if (inputRef.current instanceof HTMLInputElement && column.type !== 'time') {
+      inputRef.current.select();
+    }
+  }, []);
+
+  const finish = (action: () => void) => {
+    if (isDoneRef.current) return;
+    isDoneRef.current = true;
+    action();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finish(() => onCommit(draft));
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      finish(onCancel);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      finish(() => {
+        onCommit(draft);
+        onNavigate?.(e.shiftKey ? 'prev' : 'next');
+      });
+    }
+  };
+
+  const handleBlur = () => finish(() => onCommit(draft));
+
+  const check = getCellStatus(draft === '' ? null : draft, column);
+  const isInvalid = check.status === 'danger';
+  const ruleHint = describeRule(column.validation);
+  const options = getColumnOptions(column);
+
+  const baseClass = `w-full min-w-[80px] px-2 py-1 text-xs font-mono rounded border bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 ${
+    isInvalid
+      ? 'border-red-400 focus:ring-red-400 dark:border-red-600'
+      : 'border-indigo-300 focus:ring-indigo-500 dark:border-indigo-700'
+  }`;
+
+  const commonProps = {
+    ref: inputRef,
+    value: draft,
+    onKeyDown: handleKeyDown,
+    onBlur: handleBlur,
+    onClick: (e: React.MouseEvent) => e.stopPropagation(),
+    className: baseClass,
+    'aria-invalid': isInvalid,
+  };
+
+  let editor: React.ReactNode;
+  if (options.length > 0 || column.type === 'select' || column.type === 'status') {
+    editor = options.length > 0 ? (
+      <select {...commonProps} onChange={(e) => setDraft(e.target.value)}>
+        <option value="">—</option>
+        {/* Keep a legacy value visible even if it is no longer an allowed option */}
+        {draft !== '' && !options.some(o => o.value === draft) && <option value={draft}>{draft}</option>}
+        {options.map(opt => <option key={opt.value} value={opt.value}>{opt.label ? `${opt.value} — ${opt.label}` : opt.value}</option>)}
+      </select>
+    ) : (
+      <input {...commonProps} type="text" onChange={(e) => setDraft(e.target.value)} />
+    );
+  } else if (column.type === 'number') {
+    editor = (
+      <input
+        {...commonProps}
+        type="number"
+        inputMode="decimal"
+        step={getNumberStep(column)}
+        // Bounds are shown as hints only; out-of-range readings must stay enterable
+        placeholder={ruleHint || undefined}
+        title={ruleHint || undefined}
+        onChange={(e) => setDraft(e.target.value)}
+      />
+    );
+  } else if (column.type === 'time') {
+    editor = <input {...commonProps} type="time" onChange={(e) => setDraft(e.target.value)} />;
+  } else {
+    editor = <input {...commonProps} type="text" placeholder={ruleHint || undefined} onChange={(e) => setDraft(e.target.value)} />;
+  }
+
+  return (
+    <div className="flex flex-col gap-0.5 w-full">
+      {editor}
+      {isInvalid && check.message && (
+        <span className="text-[10px] font-sans font-medium text-red-600 dark:text-red-400 whitespace-normal">{check.message}</span>
+      )}
+      {!isInvalid && ruleHint && column.type === 'number' && (
+        <span className="text-[10px] font-sans text-slate-400 dark:text-slate-500">{ruleHint}</span>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,29 @@
-import React, { useState } from 'react';
-import { SimulationConfig } from '../types';
-import { Sliders, Zap, ShieldCheck, AlertTriangle, Calendar, ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { SimulationConfig, MonthProgress } from '../types';
+import { Sliders, Zap, ShieldCheck, AlertTriangle, Calendar, ChevronDown, ChevronUp, Sparkles, Cpu, CheckCircle2, XCircle, Circle, Loader2, FlaskConical, Dices } from 'lucide-react';
 import { Tooltip } from './Tooltip';
+import { isRangeConfig, listMonths, MAX_RANGE_MONTHS } from '../services/monthRange';
+import { createRandomSeed } from '../services/seededRandom';
 
 interface ControlPanelProps {
   config: SimulationConfig;
   onConfigChange: (newConfig: SimulationConfig) => void;
   onGenerate: () => void;
   isGenerating: boolean;
+  onCancel?: () => void; // Aborts the run in progress
   onClear: () => void;
+  rangeProgress?: MonthProgress[]; // Per-month status of the current or last range run
+  onOpenScenarios?: () => void; // Opens the anomaly scenario and scripted incident editor
+  incidentCount?: number; // Scripted incidents of the active template
 }
 
-const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onGenerate, isGenerating, onClear }) => {
+// A seed is a whole number within 32 bits; anything else is not a seed yet
+const parseSeed = (text: string): number | undefined => {
+  const trimmed = text.trim();
+  return /^\d+$/.test(trimmed) && Number(trimmed) < 2 ** 32 ? Number(trimmed) : undefined;
+};
+
+const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onGenerate, isGenerating, onClear, rangeProgress = [], onCancel, onOpenScenarios, incidentCount = 0 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   
   const handleModeChange = (mode: SimulationConfig['mode']) => {
@@ -22,6 +34,40 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onG
       onConfigChange({ ...config, [key]: value });
   };
 
+  const isRange = config.endMonth !== undefined;
+
+  // Raw seed text, so the field can be cleared and retyped; config.seed only takes parsed seeds
+  const [seedText, setSeedText] = useState(config.seed !== undefined ? String(config.seed) : '');
+  useEffect(() => {
+    if (config.seed !== undefined && parseSeed(seedText) !== config.seed) setSeedText(String(config.seed));
+  }, [config.seed]);
+
+  const handleSeedChange = (text: string) => {
+      setSeedText(text);
+      const seed = parseSeed(text);
+      if (seed !== undefined) onConfigChange({ ...config, seed });
+  };
+
+  const handleGenerate = () => {
+      if (config.seed !== undefined && parseSeed(seedText) === undefined) {
+          return alert('Enter a seed: a whole number of 0 or more.');
+      }
+      onGenerate();
+  };
+  const rangeMonthCount = isRangeConfig(config) ? listMonths(config.targetMonth, config.endMonth).length : 1;
+
+  const handleStartMonthChange = (targetMonth: string) => {
+      if (!targetMonth) return;
+      // Keep the range valid when the start moves past the end
+      const endMonth = isRange && config.endMonth! < targetMonth ? targetMonth : config.endMonth;
+      onConfigChange({ ...config, targetMonth, endMonth });
+  };
+
+  const handleFullYear = () => {
+      const year = config.targetMonth.slice(0, 4);
+      onConfigChange({ ...config, targetMonth: `${year}-01`, endMonth: `${year}-12` });
+  };
+
   return (
     <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl shadow-sm transition-colors duration-200 overflow-hidden">
       
@@ -42,6 +88,36 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onG
       {/* Content Section - Collapsible on Mobile, always visible on Desktop */}
       <div className={`px-4 pb-4 space-y-6 ${isExpanded ? 'block' : 'hidden'} lg:block`}>
         
+        {/* Engine Selection */}
+        <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 dark:bg-slate-800 rounded-lg">
+            <Tooltip content="Generate data with the AI model (requires API access)." className="w-full">
+                <button 
+                    onClick={() => onConfigChange({ ...config, engine: 'ai' })}
+                    className={`flex items-center justify-center gap-1.5 py-1.5 w-full rounded-md text-xs font-medium transition-all ${
+                        config.engine === 'ai' 
+                        ? 'bg-white text-indigo-700 shadow-sm dark:bg-slate-900 dark:text-indigo-400' 
+                        : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'
+                    }`}
+                >
+                    <Sparkles className="w-3.5 h-3.5" />
+                    AI Model
+                </button>
+            </Tooltip>
+            <Tooltip content="Generate data locally from column rules. Works without network or API key." className="w-full">
+                <button 
+                    onClick={() => onConfigChange({ ...config, engine: 'offline' })}
+                    className={`flex items-center justify-center gap-1.5 py-1.5 w-full rounded-md text-xs font-medium transition-all ${
+                        config.engine === 'offline' 
+                        ? 'bg-white text-indigo-700 shadow-sm dark:bg-slate-900 dark:text-indigo-400' 
+                        : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'
+                    }`}
+                >
+                    <Cpu className="w-3.5 h-3.5" />
+                    Offline
+                </button>
+            </Tooltip>
+        </div>
+
         {/* Mode Selection */}
         <div className="grid grid-cols-3 gap-2">
             <Tooltip content="Enforce strict validation rules. No errors generated." className="w-full">
@@ -89,18 +165,78 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onG
 
         {/* Date Selector */}
         <div>
-            <label className="text-xs font-medium text-slate-600 dark:text-slate-300 mb-2 flex items-center gap-2">
-                <Calendar className="w-3.5 h-3.5" />
-                Target Month & Year
-            </label>
+            <div className="flex items-center justify-between mb-2">
+                <label className="text-xs font-medium text-slate-600 dark:text-slate-300 flex items-center gap-2">
+                    <Calendar className="w-3.5 h-3.5" />
+                    {isRange ? 'Month Range' : 'Target Month & Year'}
+                </label>
+                <Tooltip content="Generate several months at once; each month is stored as its own sheet.">
+                    <label className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={isRange}
+                            disabled={isGenerating}
+                            onChange={(e) => onConfigChange({ ...config, endMonth: e.target.checked ? config.targetMonth : undefined })}
+                        />
+                        Range
+                    </label>
+                </Tooltip>
+            </div>
             <input 
                 type="month" 
                 value={config.targetMonth}
-                onChange={(e) => onConfigChange({ ...config, targetMonth: e.target.value })}
+                onChange={(e) => handleStartMonthChange(e.target.value)}
+                disabled={isGenerating}
                 className="w-full px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-colors"
             />
+            {isRange && (
+                <div className="mt-2 space-y-2">
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-slate-500 dark:text-slate-400">to</span>
+                        <input 
+                            type="month" 
+                            value={config.endMonth}
+                            min={config.targetMonth}
+                            onChange={(e) => e.target.value && onConfigChange({ ...config, endMonth: e.target.value < config.targetMonth ? config.targetMonth : e.target.value })}
+                            disabled={isGenerating}
+                            className="flex-1 px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-colors"
+                        />
+                    </div>
+                    <div className="flex items-center justify-between text-xs">
+                        <span className="text-slate-500 dark:text-slate-400">
+                            {rangeMonthCount} month{rangeMonthCount === 1 ? '' : 's'}{rangeMonthCount === MAX_RANGE_MONTHS ? ' (max)' : ''}
+                        </span>
+                        <button onClick={handleFullYear} disabled={isGenerating} className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium disabled:opacity-50">
+                            Full year {config.targetMonth.slice(0, 4)}
+                        </button>
+                    </div>
+                </div>
+            )}
         </div>
 
+        {/* Range Progress */}
+        {rangeProgress.length > 0 && (
+            <div className="p-2 bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 rounded-lg">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1 px-1">
+                    Range Progress · {rangeProgress.filter(p => p.status === 'done').length}/{rangeProgress.length}
+                </p>
+                <ul className="max-h-40 overflow-y-auto custom-scrollbar space-y-0.5">
+                    {rangeProgress.map(p => (
+                        <li key={p.month} className="flex items-center gap-2 px-1 py-0.5 text-xs text-slate-600 dark:text-slate-300" title={p.error}>
+                            {p.status === 'done' && <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />}
+                            {p.status === 'failed' && <XCircle className="w-3.5 h-3.5 text-red-500" />}
+                            {p.status === 'running' && <Loader2 className="w-3.5 h-3.5 text-indigo-500 animate-spin" />}
+                            {p.status === 'pending' && <Circle className="w-3.5 h-3.5 text-slate-300 dark:text-slate-600" />}
+                            <span className="font-mono">{p.month}</span>
+                            <span className="ml-auto text-[10px] text-slate-400">
+                                {p.status === 'done' ? `${p.rowCount} rows` : p.status === 'failed' ? 'failed' : ''}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
         {/* Sliders */}
         <div className="space-y-4">
             <Tooltip content="Controls how many cells are populated (10% - 100%)." className="w-full block">
@@ -134,12 +270,95 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onG
                     />
                 </div>
             </Tooltip>
+
+            {onOpenScenarios && (
+                <Tooltip content="Edit anomaly scenarios and script incidents on specific days, e.g. for training exercises." className="w-full block">
+                    <button
+                        onClick={onOpenScenarios}
+                        disabled={isGenerating}
+                        className="w-full flex items-center justify-between px-3 py-2 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50 rounded-lg text-xs font-medium text-slate-700 dark:text-slate-200 transition-colors"
+                    >
+                        <span className="flex items-center gap-1.5">
+                            <FlaskConical className="w-3.5 h-3.5 text-slate-500 dark:text-slate-400" />
+                            Scenarios & Incidents
+                        </span>
+                        {incidentCount > 0 && (
+                            <span className="px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400 text-[10px] font-semibold">
+                                {incidentCount} scripted
+                            </span>
+                        )}
+                    </button>
+                </Tooltip>
+            )}
+
+            <div className="space-y-2">
+                <Tooltip content="Give the same sheet every time these settings are run. Seeded AI runs record their responses locally." className="w-full block">
+                    <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={config.seed !== undefined}
+                            disabled={isGenerating}
+                            onChange={(e) => onConfigChange({ ...config, seed: e.target.checked ? createRandomSeed() : undefined, replay: undefined })}
+                        />
+                        Reproducible run
+                    </label>
+                </Tooltip>
+                {config.seed !== undefined && (
+                    <>
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs text-slate-600 dark:text-slate-300">Seed</span>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                value={seedText}
+                                disabled={isGenerating}
+                                onChange={(e) => handleSeedChange(e.target.value)}
+                                className="flex-1 min-w-0 px-2 py-1 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-md text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                            />
+                            <Tooltip content="Pick a new seed.">
+                                <button
+                                    onClick={() => onConfigChange({ ...config, seed: createRandomSeed() })}
+                                    disabled={isGenerating}
+                                    className="p-1.5 text-slate-500 hover:text-indigo-600 dark:text-slate-400 dark:hover:text-indigo-400 rounded-md"
+                                    aria-label="New seed"
+                                >
+                                    <Dices className="w-4 h-4" />
+                                </button>
+                            </Tooltip>
+                        </div>
+                        {config.engine === 'ai' && (
+                            <Tooltip content="Rebuild an earlier sheet from its recorded responses. Nothing is sent to the API; runs without a recording fail." className="w-full block">
+                                <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!config.replay}
+                                        disabled={isGenerating}
+                                        onChange={(e) => onConfigChange({ ...config, replay: e.target.checked || undefined })}
+                                    />
+                                    Replay recorded responses only
+                                </label>
+                            </Tooltip>
+                        )}
+                    </>
+                )}
+            </div>
         </div>
 
         <div className="pt-4 border-t border-slate-100 dark:border-slate-800 space-y-3">
-            <Tooltip content="Generate synthetic data using AI based on settings." className="w-full">
+            <Tooltip content="Keep values already in the sheet (e.g. logged by staff) and generate only the empty cells." className="w-full block">
+                <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={!!config.keepExisting}
+                        disabled={isGenerating}
+                        onChange={(e) => onConfigChange({ ...config, keepExisting: e.target.checked || undefined })}
+                    />
+                    Fill empty cells only
+                </label>
+            </Tooltip>
+            <Tooltip content={config.engine === 'offline' ? "Generate synthetic data locally based on settings." : "Generate synthetic data using AI based on settings."} className="w-full">
                 <button 
-                    onClick={onGenerate}
+                    onClick={handleGenerate}
                     disabled={isGenerating}
                     className="w-full py-2.5 px-4 bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 disabled:bg-indigo-400 dark:disabled:bg-indigo-800 text-white rounded-lg text-sm font-semibold shadow-md shadow-indigo-200 dark:shadow-none flex items-center justify-center gap-2 transition-all"
                 >
@@ -151,20 +370,32 @@ const ControlPanel: React.FC<ControlPanelProps> = ({ config, onConfigChange, onG
                     ) : (
                         <>
                         <Zap className="w-4 h-4" />
-                        Auto-Fill Table
+                        {isRangeConfig(config) ? `Auto-Fill ${rangeMonthCount} Months` : config.keepExisting ? 'Fill Empty Cells' : 'Auto-Fill Table'}
                         </>
                     )}
                 </button>
             </Tooltip>
             
-            <Tooltip content="Remove all rows from the table." className="w-full">
-                <button 
-                    onClick={onClear}
-                    className="w-full py-2 px-4 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-750 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium transition-all"
-                >
-                    Clear Data
-                </button>
-            </Tooltip>
+            {isGenerating && onCancel ? (
+                <Tooltip content="Stop the run. Rows completed so far can be kept." className="w-full">
+                    <button
+                        onClick={onCancel}
+                        className="w-full py-2 px-4 bg-white dark:bg-slate-800 border border-red-300 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-all"
+                    >
+                        <XCircle className="w-4 h-4" />
+                        Cancel
+                    </button>
+                </Tooltip>
+            ) : (
+                <Tooltip content="Remove all rows from the table." className="w-full">
+                    <button 
+                        onClick={onClear}
+                        className="w-full py-2 px-4 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-750 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium transition-all"
+                    >
+                        Clear Data
+                    </button>
+                </Tooltip>
+            )}
         </div>
       </div>
     </div>
@@ -0,0 +1,182 @@
+import React, { useState, useMemo } from 'react';
+import { TableTemplate, RowData } from '../types';
+import {
+  parseDelimitedText,
+  getHeaderNames,
+  suggestColumnMapping,
+  applyColumnMapping,
+  ColumnMapping
+} from '../services/csvImport';
+import { FileUp, X, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface CsvImportDialogProps {
+  template: TableTemplate;
+  fileName: string;
+  text: string;
+  hasExistingRows: boolean;
+  onImport: (rows: RowData[], mode: 'replace' | 'append') => void;
+  onClose: () => void;
+}
+
+const MAX_LISTED_ISSUES = 100;
+
+const countMapped = (mapping: ColumnMapping) => Object.values(mapping).filter(index => index !== null).length;
+
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ template, fileName, text, hasExistingRows, onImport, onClose }) => {
+  const parsed = useMemo(() => parseDelimitedText(text), [text]);
+
+  // Files exported with a group row (e.g. from Excel) match better with two header rows
+  const [headerRows, setHeaderRows] = useState<number>(() => {
+    const single = suggestColumnMapping(getHeaderNames(parsed, 1), template.columns);
+    const double = suggestColumnMapping(getHeaderNames(parsed, 2), template.columns);
+    return countMapped(double) > countMapped(single) ? 2 : 1;
+  });
+  const headers = useMemo(() => getHeaderNames(parsed, headerRows), [parsed, headerRows]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => suggestColumnMapping(headers, template.columns));
+  const [mode, setMode] = useState<'replace' | 'append'>('replace');
+
+  const handleHeaderRowsChange = (count: number) => {
+    setHeaderRows(count);
+    setMapping(suggestColumnMapping(getHeaderNames(parsed, count), template.columns));
+  };
+
+  const result = useMemo(
+    () => applyColumnMapping(parsed, headerRows, template.columns, mapping),
+    [parsed, headerRows, template.columns, mapping]
+  );
+  const firstDataRow = parsed.records[headerRows] || [];
+  const mappedCount = countMapped(mapping);
+
+  const handleImport = () => {
+    if (mappedCount === 0) return alert('Map at least one column before importing.');
+    if (result.rows.length === 0) return alert('The file has no data rows below the header.');
+    onImport(result.rows, mode);
+  };
+
+  const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase mb-1";
+  const selectClass = "w-full px-2 py-1.5 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-md text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-slate-800">
+          <div>
+            <h3 className="text-base font-bold text-slate-900 dark:text-white flex items-center gap-2">
+              <FileUp className="w-4 h-4 text-slate-500" />
+              Import Rows from File
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+              {fileName} · {parsed.delimiter === '\t' ? 'Tab' : `"${parsed.delimiter}"`} separated · {Math.max(parsed.records.length - headerRows, 0)} data rows
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className={labelClass}>Header Rows</label>
+              <select value={headerRows} onChange={e => handleHeaderRowsChange(Number(e.target.value))} className={selectClass}>
+                <option value={1}>1 (column labels)</option>
+                <option value={2}>2 (groups + labels)</option>
+              </select>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400 pb-1.5">
+              {mappedCount} of {template.columns.length} columns mapped. Columns were matched by label, sub-label and group; adjust any that are wrong.
+            </p>
+          </div>
+
+          {/* Column Mapping */}
+          <div className="border border-slate-200 dark:border-slate-800 rounded-lg overflow-hidden">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 dark:bg-slate-850 text-slate-500 dark:text-slate-400 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Template Column</th>
+                  <th className="px-3 py-2 text-left">File Column</th>
+                  <th className="px-3 py-2 text-left">First Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {template.columns.map(col => {
+                  const index = mapping[col.key];
+                  return (
+                    <tr key={col.key} className="border-t border-slate-100 dark:border-slate-800">
+                      <td className="px-3 py-1.5 text-slate-700 dark:text-slate-200">
+                        {col.group && <span className="text-slate-400">{col.group} › </span>}
+                        {col.label}
+                        {col.subLabel && <span className="text-slate-400"> ({col.subLabel})</span>}
+                      </td>
+                      <td className="px-3 py-1.5 w-56">
+                        <select
+                          value={index ?? ''}
+                          onChange={e => setMapping({ ...mapping, [col.key]: e.target.value === '' ? null : Number(e.target.value) })}
+                          className={selectClass}
+                        >
+                          <option value="">— Skip —</option>
+                          {headers.map((header, i) => <option key={i} value={i}>{header}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-3 py-1.5 font-mono text-slate-500 dark:text-slate-400 truncate max-w-[140px]">
+                        {index !== null && index !== undefined ? firstDataRow[index] || '' : ''}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Validation Report */}
+          {result.issues.length > 0 ? (
+            <div className="p-3 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+              <p className="text-sm font-semibold text-amber-800 dark:text-amber-400 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                {result.invalidRowCount} of {result.rows.length} rows fail validation ({result.issues.length} cells)
+              </p>
+              <p className="text-xs text-amber-700 dark:text-amber-500 mt-1 mb-2">They will still be imported and highlighted so they can be corrected or AutoFixed.</p>
+              <ul className="max-h-40 overflow-y-auto custom-scrollbar text-xs font-mono text-amber-900 dark:text-amber-300 space-y-0.5">
+                {result.issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                  <li key={i}>Row {issue.row} · {issue.column}: "{issue.value}" — {issue.message}</li>
+                ))}
+                {result.issues.length > MAX_LISTED_ISSUES && <li>…and {result.issues.length - MAX_LISTED_ISSUES} more</li>}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm font-medium text-emerald-700 dark:text-emerald-400 flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4" />
+              All {result.rows.length} rows pass validation.
+            </p>
+          )}
+
+          {hasExistingRows && (
+            <div className="flex gap-4 text-sm text-slate-700 dark:text-slate-300">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                Replace current rows
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={mode === 'append'} onChange={() => setMode('append')} />
+                Append to current rows
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-sm font-medium">
+            Cancel
+          </button>
+          <button onClick={handleImport} className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-lg text-sm font-medium shadow-md">
+            <FileUp className="w-4 h-4" />
+            Import {result.rows.length} Rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { MaintenanceDocument } from '../types';
 import { INITIAL_DOCUMENTS } from '../constants';
+import { loadDocuments, saveDocuments } from '../services/workspaceStore';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
 import { 
@@ -122,6 +123,20 @@ export const DocumentationPanel: React.FC = () => {
   const multiPdfTemplateRef = useRef<HTMLDivElement>(null);
   
   const [formData, setFormData] = useState<Partial<MaintenanceDocument>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Restore saved documents; fall back to the built-in set on first use
+  useEffect(() => {
+    loadDocuments()
+      .then(saved => { if (saved) setDocuments(saved); })
+      .catch(e => console.error("Failed to load documents", e))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    saveDocuments(documents).catch(e => console.error("Failed to save documents", e));
+  }, [documents, isLoaded]);
 
   useEffect(() => {
     const generatePdf = async () => {
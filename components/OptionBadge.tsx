@@ -0,0 +1,33 @@
+import React from 'react';
+import { ColumnOption } from '../types';
+
+const BADGE_COLORS: Record<NonNullable<ColumnOption['color']>, string> = {
+  slate: 'bg-slate-100 text-slate-700 border-slate-200 dark:bg-slate-800 dark:text-slate-300 dark:border-slate-700',
+  green: 'bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-900/30 dark:text-emerald-400 dark:border-emerald-800',
+  amber: 'bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-400 dark:border-amber-800',
+  red: 'bg-red-100 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-400 dark:border-red-800',
+  blue: 'bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-900/30 dark:text-blue-400 dark:border-blue-800',
+  indigo: 'bg-indigo-100 text-indigo-700 border-indigo-200 dark:bg-indigo-900/30 dark:text-indigo-400 dark:border-indigo-800',
+};
+
+const SEVERITY_COLORS: Record<NonNullable<ColumnOption['severity']>, NonNullable<ColumnOption['color']>> = {
+  ok: 'green',
+  warning: 'amber',
+  critical: 'red',
+};
+
+export const getOptionColor = (option: ColumnOption): NonNullable<ColumnOption['color']> =>
+  option.color || (option.severity ? SEVERITY_COLORS[option.severity] : 'slate');
+
+interface OptionBadgeProps {
+  option: ColumnOption;
+}
+
+export const OptionBadge: React.FC<OptionBadgeProps> = ({ option }) => (
+  <span
+    className={`inline-flex items-center px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wider font-sans ${BADGE_COLORS[getOptionColor(option)]}`}
+    title={option.label}
+  >
+    {option.label || option.value}
+  </span>
+);
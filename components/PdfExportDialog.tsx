@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { PdfExportOptions, TableTemplate } from '../types';
+import { getFormCode, formatTargetMonth } from '../services/pdfExport';
+import { FileDown, X } from 'lucide-react';
+
+interface PdfExportDialogProps {
+  template: TableTemplate;
+  targetMonth: string;
+  options: PdfExportOptions;
+  onExport: (options: PdfExportOptions) => void;
+  onClose: () => void;
+}
+
+export const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ template, targetMonth, options, onExport, onClose }) => {
+  const [formData, setFormData] = useState<PdfExportOptions>(options);
+  const formCode = getFormCode(template);
+
+  const handleExport = () => {
+    if (!formData.propertyName.trim()) return alert('Property name is required');
+    onExport({ ...formData, propertyName: formData.propertyName.trim(), department: formData.department.trim() });
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+  const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-slate-800">
+          <h3 className="text-base font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <FileDown className="w-4 h-4 text-slate-500" />
+            Export Log Sheet PDF
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700 text-xs">
+            <div>
+              <p className="text-slate-400 uppercase font-semibold">Form Code</p>
+              <p className="font-mono text-slate-700 dark:text-slate-200">{formCode || '—'}</p>
+            </div>
+            <div>
+              <p className="text-slate-400 uppercase font-semibold">Month</p>
+              <p className="text-slate-700 dark:text-slate-200">{formatTargetMonth(targetMonth)}</p>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Property Name</label>
+            <input
+              type="text"
+              value={formData.propertyName}
+              onChange={e => setFormData({ ...formData, propertyName: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Department</label>
+            <input
+              type="text"
+              value={formData.department}
+              onChange={e => setFormData({ ...formData, department: e.target.value })}
+              className={inputClass}
+              placeholder="Optional"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={formData.includeSignatures}
+              onChange={e => setFormData({ ...formData, includeSignatures: e.target.checked })}
+            />
+            Include signature / verification block
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-sm font-medium">
+            Cancel
+          </button>
+          <button onClick={handleExport} className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-lg text-sm font-medium shadow-md">
+            <FileDown className="w-4 h-4" />
+            Export PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { QualityReport } from '../types';
+import { describeQualityReport } from '../services/responseValidation';
+import { ShieldCheck, AlertTriangle, X } from 'lucide-react';
+
+interface QualitySummaryProps {
+  title: string; // What produced the rows, e.g. "Generate table"
+  report: QualityReport;
+  onDismiss: () => void;
+}
+
+export const QualitySummary: React.FC<QualitySummaryProps> = ({ title, report, onDismiss }) => {
+  const lines = describeQualityReport(report);
+  const isClean = lines.length === 0;
+
+  return (
+    <div className={`p-4 rounded-xl border ${isClean
+      ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800'
+      : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'}`}
+    >
+      <div className="flex items-start justify-between gap-2 mb-1">
+        <h4 className={`font-semibold text-sm flex items-center gap-2 ${isClean ? 'text-emerald-800 dark:text-emerald-400' : 'text-amber-800 dark:text-amber-400'}`}>
+          {isClean ? <ShieldCheck className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+          Response Quality
+        </h4>
+        <button onClick={onDismiss} className="p-0.5 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded" aria-label="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">{title} · {report.rowsExpected} rows checked</p>
+      {isClean ? (
+        <p className="text-xs text-emerald-700 dark:text-emerald-500">Every row matched the template without repairs.</p>
+      ) : (
+        <ul className="text-xs text-amber-700 dark:text-amber-500 space-y-0.5 list-disc pl-4">
+          {lines.map(line => <li key={line}>{line}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
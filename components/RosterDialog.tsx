@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { StaffMember } from '../types';
+import { WEEKDAY_NAMES } from '../services/roster';
+import { Users, X, Save, Plus, Trash2 } from 'lucide-react';
+
+interface RosterDialogProps {
+  roster: StaffMember[];
+  onSave: (roster: StaffMember[]) => void;
+  onClose: () => void;
+}
+
+const createStaffMember = (): StaffMember => ({
+  id: `staff-${Date.now()}`,
+  name: '',
+  initials: '',
+  role: '',
+  workingDays: [0, 1, 2, 3, 4],
+  shiftStart: '07:00',
+  shiftEnd: '15:00',
+});
+
+// "Jane Smith" -> "JS"
+const deriveInitials = (name: string) =>
+  name.split(/[\s.]+/).filter(Boolean).map(part => part[0].toUpperCase()).join('');
+
+export const RosterDialog: React.FC<RosterDialogProps> = ({ roster, onSave, onClose }) => {
+  const [staff, setStaff] = useState<StaffMember[]>(roster);
+
+  const updateMember = (index: number, changes: Partial<StaffMember>) => {
+    setStaff(staff.map((member, i) => i === index ? { ...member, ...changes } : member));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = staff[index].workingDays;
+    updateMember(index, { workingDays: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b) });
+  };
+
+  const handleSave = () => {
+    const cleaned = staff
+      .map(member => ({ ...member, name: member.name.trim(), role: member.role.trim(), initials: member.initials.trim() || deriveInitials(member.name) }))
+      .filter(member => member.name);
+    const names = cleaned.map(member => member.name.toLowerCase());
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) return alert(`"${duplicate}" is on the roster twice. Staff names must be unique.`);
+    const idle = cleaned.find(member => member.workingDays.length === 0);
+    if (idle) return alert(`${idle.name} has no working days.`);
+    onSave(cleaned);
+  };
+
+  const inputClass = "w-full px-2 py-1.5 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-md text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+  const labelClass = "block text-[10px] font-semibold text-slate-500 dark:text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-slate-800">
+          <div>
+            <h3 className="text-base font-bold text-slate-900 dark:text-white flex items-center gap-2">
+              <Users className="w-4 h-4 text-slate-500" />
+              Staff Roster
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+              Name, Checked By, Done By and Signature columns are filled only with staff on shift, and other names are flagged.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+          {staff.length === 0 && (
+            <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">No staff on the roster. Person columns will not be checked.</p>
+          )}
+          {staff.map((member, index) => (
+            <div key={member.id} className="p-3 border border-slate-200 dark:border-slate-800 rounded-lg space-y-2">
+              <div className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-4">
+                  <label className={labelClass}>Name</label>
+                  <input value={member.name} onChange={e => updateMember(index, { name: e.target.value })} className={inputClass} placeholder="J. Smith" />
+                </div>
+                <div className="col-span-2">
+                  <label className={labelClass}>Initials</label>
+                  <input value={member.initials} onChange={e => updateMember(index, { initials: e.target.value })} className={inputClass} placeholder={deriveInitials(member.name) || 'JS'} />
+                </div>
+                <div className="col-span-5">
+                  <label className={labelClass}>Role</label>
+                  <input value={member.role} onChange={e => updateMember(index, { role: e.target.value })} className={inputClass} placeholder="Pool Technician" />
+                </div>
+                <div className="col-span-1 flex justify-end">
+                  <button
+                    onClick={() => setStaff(staff.filter((_, i) => i !== index))}
+                    className="p-1.5 text-slate-400 hover:text-red-600 dark:hover:text-red-400 rounded-md"
+                    aria-label={`Remove ${member.name || 'staff member'}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <label className={labelClass}>Working Days</label>
+                  <div className="flex gap-1">
+                    {WEEKDAY_NAMES.map((name, day) => (
+                      <button
+                        key={name}
+                        onClick={() => toggleDay(index, day)}
+                        className={`px-2 py-1 rounded-md text-[11px] font-medium border transition-colors ${
+                          member.workingDays.includes(day)
+                          ? 'bg-indigo-50 border-indigo-200 text-indigo-700 dark:bg-indigo-900/20 dark:border-indigo-800 dark:text-indigo-400'
+                          : 'bg-slate-50 border-slate-200 text-slate-400 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-500'
+                        }`}
+                      >
+                        {name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="w-28">
+                  <label className={labelClass}>Shift Start</label>
+                  <input type="time" value={member.shiftStart} onChange={e => updateMember(index, { shiftStart: e.target.value })} className={inputClass} />
+                </div>
+                <div className="w-28">
+                  <label className={labelClass}>Shift End</label>
+                  <input type="time" value={member.shiftEnd} onChange={e => updateMember(index, { shiftEnd: e.target.value })} className={inputClass} />
+                </div>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => setStaff([...staff, createStaffMember()])}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-md"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add Staff Member
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-sm font-medium">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-lg text-sm font-medium shadow-md">
+            <Save className="w-4 h-4" />
+            Save Roster
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,378 @@
+import React, { useState } from 'react';
+import { TableTemplate, ScenarioLibrary, ScriptedIncident, AnomalyScenario } from '../types';
+import { ANOMALY_SCENARIOS } from '../constants';
+import { findNoteColumn, supportsIncidents } from '../services/incidents';
+import { FlaskConical, X, Save, Plus, Trash2, RotateCcw, AlertTriangle } from 'lucide-react';
+
+interface ScenarioDialogProps {
+  template: TableTemplate;
+  scenarios: ScenarioLibrary;
+  incidents: ScriptedIncident[]; // Of the active template
+  onSave: (scenarios: ScenarioLibrary, incidents: ScriptedIncident[]) => void;
+  onClose: () => void;
+}
+
+interface ScenarioDraft extends AnomalyScenario {
+  id: string;
+}
+
+interface DomainDraft {
+  name: string;
+  scenarios: ScenarioDraft[];
+}
+
+// Readings are edited as rows of column + text so a column can be picked before its value is typed
+interface IncidentDraft extends Omit<ScriptedIncident, 'readings'> {
+  readings: { key: string; value: string }[];
+}
+
+// "Fecal accident!" -> "fecal_accident"
+const toIdentifier = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const toDomainDrafts = (library: ScenarioLibrary): DomainDraft[] =>
+  Object.entries(library).map(([name, scenarios]) => ({
+    name,
+    scenarios: Object.entries(scenarios).map(([id, scenario]) => ({ id, ...scenario })),
+  }));
+
+const toIncidentDraft = (incident: ScriptedIncident): IncidentDraft => ({
+  ...incident,
+  readings: Object.entries(incident.readings).map(([key, value]) => ({ key, value: String(value) })),
+});
+
+const createIncident = (): IncidentDraft => ({
+  id: `incident-${Date.now()}`,
+  day: 1,
+  description: '',
+  correctiveAction: '',
+  readings: [],
+  followUpDays: 1,
+  followUpNote: '',
+});
+
+export const ScenarioDialog: React.FC<ScenarioDialogProps> = ({ template, scenarios, incidents, onSave, onClose }) => {
+  const [tab, setTab] = useState<'scenarios' | 'incidents'>(incidents.length > 0 ? 'incidents' : 'scenarios');
+  const [domains, setDomains] = useState<DomainDraft[]>(() => toDomainDrafts(scenarios));
+  const [drafts, setDrafts] = useState<IncidentDraft[]>(() => incidents.map(toIncidentDraft));
+
+  const noteColumn = findNoteColumn(template);
+  const readingColumns = template.columns.filter(c => c !== noteColumn);
+  // Referenced by position, since new scenarios have no id until saved
+  const allScenarios = domains
+    .flatMap((domain, d) => domain.scenarios.map((scenario, i) => ({ ...scenario, ref: `${d}:${i}` })))
+    .filter(scenario => scenario.condition.trim());
+
+  const updateDomain = (index: number, changes: Partial<DomainDraft>) => {
+    setDomains(domains.map((domain, i) => i === index ? { ...domain, ...changes } : domain));
+  };
+
+  const updateScenario = (domainIndex: number, scenarioIndex: number, changes: Partial<AnomalyScenario>) => {
+    const list = domains[domainIndex].scenarios.map((scenario, i) => i === scenarioIndex ? { ...scenario, ...changes } : scenario);
+    updateDomain(domainIndex, { scenarios: list });
+  };
+
+  const updateIncident = (index: number, changes: Partial<IncidentDraft>) => {
+    setDrafts(drafts.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+  };
+
+  const updateReading = (index: number, readingIndex: number, changes: Partial<{ key: string; value: string }>) => {
+    updateIncident(index, { readings: drafts[index].readings.map((reading, i) => i === readingIndex ? { ...reading, ...changes } : reading) });
+  };
+
+  // Starting from a scenario copies its condition, corrective action and outcome, which can then be edited
+  const applyScenario = (index: number, ref: string) => {
+    const scenario = allScenarios.find(s => s.ref === ref);
+    if (!scenario) return;
+    updateIncident(index, {
+      description: scenario.condition,
+      correctiveAction: scenario.corrective_action,
+      followUpNote: scenario.outcome,
+    });
+  };
+
+  const buildLibrary = (): ScenarioLibrary | string => {
+    const library: ScenarioLibrary = {};
+    for (const domain of domains) {
+      const name = toIdentifier(domain.name);
+      if (!name) return 'Every domain needs a name.';
+      if (library[name]) return `The domain "${name}" is listed twice.`;
+      library[name] = {};
+      for (const scenario of domain.scenarios) {
+        const condition = scenario.condition.trim();
+        if (!condition && !scenario.corrective_action.trim()) continue;
+        if (!condition) return `A scenario in "${name}" has no condition.`;
+        let id = scenario.id || toIdentifier(condition) || 'scenario';
+        for (let n = 2; library[name][id]; n++) id = `${scenario.id || toIdentifier(condition)}_${n}`;
+        library[name][id] = { condition, outcome: scenario.outcome.trim(), corrective_action: scenario.corrective_action.trim() };
+      }
+    }
+    return library;
+  };
+
+  const buildIncidents = (): ScriptedIncident[] | string => {
+    const result: ScriptedIncident[] = [];
+    for (const draft of drafts) {
+      const description = draft.description.trim();
+      if (!description) return 'Every incident needs a description.';
+      if (!Number.isInteger(draft.day) || draft.day < 1 || draft.day > 31) return `"${description}" needs a day between 1 and 31.`;
+      const readings: Record<string, string | number> = {};
+      for (const reading of draft.readings) {
+        const text = reading.value.trim();
+        if (!reading.key || !text) continue;
+        if (reading.key in readings) return `"${description}" sets ${reading.key} twice.`;
+        const col = template.columns.find(c => c.key === reading.key);
+        readings[reading.key] = col?.type === 'number' && Number.isFinite(Number(text)) ? Number(text) : text;
+      }
+      result.push({
+        ...draft,
+        description,
+        correctiveAction: draft.correctiveAction.trim(),
+        followUpNote: draft.followUpNote.trim(),
+        followUpDays: Math.max(0, Math.floor(draft.followUpDays) || 0),
+        month: draft.month || undefined,
+        readings,
+      });
+    }
+    return result.sort((a, b) => a.day - b.day);
+  };
+
+  const handleSave = () => {
+    const library = buildLibrary();
+    if (typeof library === 'string') return alert(library);
+    const scripted = buildIncidents();
+    if (typeof scripted === 'string') return alert(scripted);
+    onSave(library, scripted);
+  };
+
+  const handleReset = () => {
+    if (confirm('Replace the scenario library with the built-in scenarios? Your edits will be lost.')) {
+      setDomains(toDomainDrafts(ANOMALY_SCENARIOS));
+    }
+  };
+
+  const inputClass = "w-full px-2 py-1.5 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-md text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+  const labelClass = "block text-[10px] font-semibold text-slate-500 dark:text-slate-400 uppercase mb-1";
+  const addButtonClass = "flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-md";
+  const removeButtonClass = "p-1.5 text-slate-400 hover:text-red-600 dark:hover:text-red-400 rounded-md";
+  const tabClass = (active: boolean) => `px-3 py-1.5 rounded-md text-xs font-medium transition-all ${
+    active
+    ? 'bg-white text-indigo-700 shadow-sm dark:bg-slate-900 dark:text-indigo-400'
+    : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-slate-800">
+          <div>
+            <h3 className="text-base font-bold text-slate-900 dark:text-white flex items-center gap-2">
+              <FlaskConical className="w-4 h-4 text-slate-500" />
+              Scenarios & Incidents
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+              Scenarios supply corrective actions for anomalies. Scripted incidents are written into {template.name} on their day.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-4 pt-3">
+          <div className="inline-flex gap-1 p-1 bg-slate-100 dark:bg-slate-800 rounded-lg">
+            <button onClick={() => setTab('scenarios')} className={tabClass(tab === 'scenarios')}>Scenario Library</button>
+            <button onClick={() => setTab('incidents')} className={tabClass(tab === 'incidents')}>
+              Scripted Incidents{drafts.length > 0 ? ` (${drafts.length})` : ''}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+          {tab === 'scenarios' && (
+            <>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Write conditions as "subject &gt; value" or "subject &lt; value" (e.g. "pH &gt; 7.8") so the offline engine can match them to columns.
+              </p>
+              {domains.map((domain, domainIndex) => (
+                <div key={domainIndex} className="p-3 border border-slate-200 dark:border-slate-800 rounded-lg space-y-2">
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                      <label className={labelClass}>Domain</label>
+                      <input value={domain.name} onChange={e => updateDomain(domainIndex, { name: e.target.value })} className={inputClass} placeholder="water_quality" />
+                    </div>
+                    <button
+                      onClick={() => setDomains(domains.filter((_, i) => i !== domainIndex))}
+                      className={removeButtonClass}
+                      aria-label={`Remove domain ${domain.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {domain.scenarios.map((scenario, scenarioIndex) => (
+                    <div key={scenarioIndex} className="grid grid-cols-12 gap-2 items-end">
+                      <div className="col-span-3">
+                        {scenarioIndex === 0 && <label className={labelClass}>Condition</label>}
+                        <input value={scenario.condition} onChange={e => updateScenario(domainIndex, scenarioIndex, { condition: e.target.value })} className={inputClass} placeholder="pH > 7.8" />
+                      </div>
+                      <div className="col-span-3">
+                        {scenarioIndex === 0 && <label className={labelClass}>Outcome</label>}
+                        <input value={scenario.outcome} onChange={e => updateScenario(domainIndex, scenarioIndex, { outcome: e.target.value })} className={inputClass} placeholder="Scale formation risk" />
+                      </div>
+                      <div className="col-span-5">
+                        {scenarioIndex === 0 && <label className={labelClass}>Corrective Action</label>}
+                        <input value={scenario.corrective_action} onChange={e => updateScenario(domainIndex, scenarioIndex, { corrective_action: e.target.value })} className={inputClass} placeholder="Added pH decreaser (Acid)." />
+                      </div>
+                      <div className="col-span-1 flex justify-end">
+                        <button
+                          onClick={() => updateDomain(domainIndex, { scenarios: domain.scenarios.filter((_, i) => i !== scenarioIndex) })}
+                          className={removeButtonClass}
+                          aria-label={`Remove scenario ${scenario.condition}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateDomain(domainIndex, { scenarios: [...domain.scenarios, { id: '', condition: '', outcome: '', corrective_action: '' }] })}
+                    className={addButtonClass}
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    Add Scenario
+                  </button>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <button onClick={() => setDomains([...domains, { name: '', scenarios: [] }])} className={addButtonClass}>
+                  <Plus className="w-3.5 h-3.5" />
+                  Add Domain
+                </button>
+                <button onClick={handleReset} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 rounded-md">
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  Restore Built-in Scenarios
+                </button>
+              </div>
+            </>
+          )}
+
+          {tab === 'incidents' && (
+            <>
+              {!supportsIncidents(template) && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 text-xs">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  This sheet has no day or date column, so scripted incidents cannot be placed on a day and are ignored.
+                </div>
+              )}
+              {drafts.length === 0 && (
+                <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">
+                  No scripted incidents. Add one to place a specific event, such as a fecal accident on day 12, in every generated sheet.
+                </p>
+              )}
+              {drafts.map((draft, index) => (
+                <div key={draft.id} className="p-3 border border-slate-200 dark:border-slate-800 rounded-lg space-y-2">
+                  <div className="grid grid-cols-12 gap-2 items-end">
+                    <div className="col-span-2">
+                      <label className={labelClass}>Day</label>
+                      <input type="number" min={1} max={31} value={draft.day} onChange={e => updateIncident(index, { day: parseInt(e.target.value) || 0 })} className={inputClass} />
+                    </div>
+                    <div className="col-span-3">
+                      <label className={labelClass}>Month (optional)</label>
+                      <input type="month" value={draft.month || ''} onChange={e => updateIncident(index, { month: e.target.value || undefined })} className={inputClass} />
+                    </div>
+                    <div className="col-span-6">
+                      <label className={labelClass}>Start From Scenario</label>
+                      <select value="" onChange={e => applyScenario(index, e.target.value)} className={inputClass}>
+                        <option value="">Choose a scenario...</option>
+                        {allScenarios.map(scenario => (
+                          <option key={scenario.ref} value={scenario.ref}>{scenario.condition}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="col-span-1 flex justify-end">
+                      <button
+                        onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                        className={removeButtonClass}
+                        aria-label={`Remove incident ${draft.description}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className={labelClass}>What Happened</label>
+                      <input value={draft.description} onChange={e => updateIncident(index, { description: e.target.value })} className={inputClass} placeholder="Fecal accident in main pool" />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Corrective Action</label>
+                      <input value={draft.correctiveAction} onChange={e => updateIncident(index, { correctiveAction: e.target.value })} className={inputClass} placeholder="Pool closed, superchlorination to 10 ppm" />
+                    </div>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Readings On The Day</label>
+                    <div className="space-y-1.5">
+                      {draft.readings.map((reading, readingIndex) => (
+                        <div key={readingIndex} className="grid grid-cols-12 gap-2 items-center">
+                          <select value={reading.key} onChange={e => updateReading(index, readingIndex, { key: e.target.value })} className={`${inputClass} col-span-8`}>
+                            <option value="">Choose a column...</option>
+                            {readingColumns.map(col => (
+                              <option key={col.key} value={col.key}>{col.group ? `${col.group} — ` : ''}{col.label}{col.subLabel ? ` (${col.subLabel})` : ''}</option>
+                            ))}
+                          </select>
+                          <input value={reading.value} onChange={e => updateReading(index, readingIndex, { value: e.target.value })} className={`${inputClass} col-span-3`} placeholder="10" />
+                          <button
+                            onClick={() => updateIncident(index, { readings: draft.readings.filter((_, i) => i !== readingIndex) })}
+                            className={`${removeButtonClass} col-span-1 justify-self-end`}
+                            aria-label="Remove reading"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <button onClick={() => updateIncident(index, { readings: [...draft.readings, { key: '', value: '' }] })} className={addButtonClass}>
+                        <Plus className="w-3.5 h-3.5" />
+                        Add Reading
+                      </button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-12 gap-2 items-end">
+                    <div className="col-span-3">
+                      <label className={labelClass}>Follow-up Days</label>
+                      <input type="number" min={0} max={31} value={draft.followUpDays} onChange={e => updateIncident(index, { followUpDays: parseInt(e.target.value) || 0 })} className={inputClass} />
+                    </div>
+                    <div className="col-span-9">
+                      <label className={labelClass}>Follow-up Note</label>
+                      <input value={draft.followUpNote} onChange={e => updateIncident(index, { followUpNote: e.target.value })} className={inputClass} placeholder="Pool closed 24h; chlorine returning to normal" />
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <button onClick={() => setDrafts([...drafts, createIncident()])} className={addButtonClass}>
+                <Plus className="w-3.5 h-3.5" />
+                Add Incident
+              </button>
+              {drafts.length > 0 && !noteColumn && (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  This sheet has no corrective action or notes column, so only the readings are written.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-sm font-medium">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-lg text-sm font-medium shadow-md">
+            <Save className="w-4 h-4" />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
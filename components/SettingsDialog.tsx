@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import { LlmSettings } from '../types';
+import { DEFAULT_MODELS } from '../services/llmProvider';
+import { countCachedResponses, clearResponseCache, MAX_CACHED_RESPONSES } from '../services/workspaceStore';
+import { Settings, X, Save, Server, Sparkles, Trash2 } from 'lucide-react';
+
+interface SettingsDialogProps {
+  settings: LlmSettings;
+  editorName: string; // Recorded on every cell this person changes
+  onSave: (settings: LlmSettings, editorName: string) => void;
+  onClose: () => void;
+}
+
+export const SettingsDialog: React.FC<SettingsDialogProps> = ({ settings, editorName, onSave, onClose }) => {
+  const [formData, setFormData] = useState<LlmSettings>(settings);
+  const [editor, setEditor] = useState(editorName);
+  // Model responses recorded by seeded runs; null while counting
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    countCachedResponses()
+      .then(setCachedCount)
+      .catch(error => console.error("Failed to count cached responses", error));
+  }, []);
+
+  const handleClearCache = async () => {
+    if (!confirm('Delete all recorded responses? Seeded runs will call the API again and replays of earlier sheets will no longer work.')) return;
+    try {
+      await clearResponseCache();
+      setCachedCount(0);
+    } catch (error) {
+      console.error("Failed to clear response cache", error);
+      alert("Failed to clear the recorded responses.");
+    }
+  };
+
+  const handleProviderChange = (provider: LlmSettings['provider']) => {
+    // Swap in the provider's default model unless the user typed a custom one
+    const isDefaultModel = Object.values(DEFAULT_MODELS).includes(formData.model);
+    setFormData({
+      ...formData,
+      provider,
+      model: isDefaultModel ? DEFAULT_MODELS[provider] : formData.model,
+    });
+  };
+
+  const handleSave = () => {
+    if (!formData.model.trim()) return alert('Model name is required');
+    if (formData.provider === 'openai-compatible' && !formData.baseUrl.trim()) {
+      return alert('Endpoint URL is required for OpenAI-compatible providers');
+    }
+    onSave({ ...formData, model: formData.model.trim(), baseUrl: formData.baseUrl.trim() }, editor.trim());
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+  const labelClass = "block text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-slate-800">
+          <h3 className="text-base font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <Settings className="w-4 h-4 text-slate-500" />
+            Settings
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => handleProviderChange('gemini')}
+              className={`flex items-center justify-center gap-2 p-2 rounded-lg border text-xs font-medium transition-all ${
+                formData.provider === 'gemini'
+                ? 'bg-indigo-50 border-indigo-200 text-indigo-700 ring-1 ring-indigo-500 dark:bg-indigo-900/20 dark:border-indigo-800 dark:text-indigo-400'
+                : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-400'
+              }`}
+            >
+              <Sparkles className="w-4 h-4" />
+              Google Gemini
+            </button>
+            <button
+              onClick={() => handleProviderChange('openai-compatible')}
+              className={`flex items-center justify-center gap-2 p-2 rounded-lg border text-xs font-medium transition-all ${
+                formData.provider === 'openai-compatible'
+                ? 'bg-indigo-50 border-indigo-200 text-indigo-700 ring-1 ring-indigo-500 dark:bg-indigo-900/20 dark:border-indigo-800 dark:text-indigo-400'
+                : 'bg-slate-50 border-slate-200 text-slate-600 hover:bg-slate-100 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-400'
+              }`}
+            >
+              <Server className="w-4 h-4" />
+              OpenAI-compatible
+            </button>
+          </div>
+
+          {formData.provider === 'openai-compatible' && (
+            <div>
+              <label className={labelClass}>Endpoint URL</label>
+              <input
+                type="url"
+                value={formData.baseUrl}
+                onChange={e => setFormData({ ...formData, baseUrl: e.target.value })}
+                className={inputClass}
+                placeholder="http://localhost:8000/v1"
+              />
+              <p className="text-[11px] text-slate-400 mt-1">Requests are sent to <span className="font-mono">/chat/completions</span> under this URL.</p>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Model</label>
+            <input
+              type="text"
+              value={formData.model}
+              onChange={e => setFormData({ ...formData, model: e.target.value })}
+              className={inputClass}
+              placeholder={DEFAULT_MODELS[formData.provider]}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>API Key</label>
+            <input
+              type="password"
+              value={formData.apiKey}
+              onChange={e => setFormData({ ...formData, apiKey: e.target.value })}
+              className={inputClass}
+              placeholder={formData.provider === 'gemini' ? 'Leave empty to use the configured key' : 'Optional'}
+            />
+          </div>
+
+          <div className="pt-4 border-t border-slate-100 dark:border-slate-800">
+            <label className={labelClass}>Your Name</label>
+            <input
+              type="text"
+              value={editor}
+              onChange={e => setEditor(e.target.value)}
+              className={inputClass}
+              placeholder="e.g. J. Smith"
+            />
+            <p className="text-[11px] text-slate-400 mt-1">Shown in the audit trail of every cell you generate, edit or import.</p>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100 dark:border-slate-800">
+            <label className={labelClass}>Recorded Responses</label>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-slate-600 dark:text-slate-300">
+                {cachedCount === null ? 'Counting...' : `${cachedCount} model response${cachedCount === 1 ? '' : 's'} stored for replaying seeded runs. Only the latest ${MAX_CACHED_RESPONSES} are kept.`}
+              </p>
+              <button
+                onClick={handleClearCache}
+                disabled={!cachedCount}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-40 disabled:hover:bg-transparent rounded-md"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                Clear
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-sm font-medium">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-lg text-sm font-medium shadow-md">
+            <Save className="w-4 h-4" />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
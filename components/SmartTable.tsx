@@ -1,8 +1,12 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Column, RowData } from '../types';
-import { AlertCircle, ArrowUpDown, ArrowUp, ArrowDown, Trash2, Edit2, Minus, Check, X, Wand2 } from 'lucide-react';
+import { Column, RowData, RowProvenance, CellSource, SimulationConfig } from '../types';
+import { AlertCircle, ArrowUpDown, ArrowUp, ArrowDown, Trash2, Edit2, Minus, Check, X, Wand2, RefreshCw, Wrench, ScanLine, CheckCheck } from 'lucide-react';
 import { Tooltip } from './Tooltip';
 import { DatePicker } from './DatePicker';
+import { CellEditor } from './CellEditor';
+import { getCellStatus, describeRule, getColumnOptions, findOption, CellCheck } from '../services/validation';
+import { OptionBadge } from './OptionBadge';
+import { describeProvenance, countUnverifiedCells } from '../services/provenance';
 
 interface SmartTableProps {
   columns: Column[];
@@ -12,9 +16,22 @@ interface SmartTableProps {
   onDataChange?: (rowIndex: number, key: string, value: string) => void;
   onRowsDelete?: (indices: number[]) => void;
   onRowsUpdate?: (indices: number[], key: string, value: string) => void;
-  onRowsAutoFix?: (indices: number[]) => void;
+  onRowsAutoFix?: (indices: number[], engine: SimulationConfig['engine']) => void; // 'offline' fixes by column rules without an API call
+  onRowsRegenerate?: (indices: number[]) => void; // Generate the selected rows again, keeping the rest as context
+  onCancel?: () => void; // Shown as a Cancel action while loading
+  provenance?: RowProvenance[]; // Parallel to data; cells changed after generation get a badge
+  rosterChecks?: Record<string, CellCheck>; // `${rowIndex}:${key}` -> roster problem of a person cell
+  onCellsConfirm?: (cells: { row: number; key: string }[]) => void; // Clears the flags of scanned cells checked against the original
 }
 
+// Generated values are the norm, so only other sources are marked
+const PROVENANCE_DOT: Partial<Record<CellSource, string>> = {
+  manual: 'bg-sky-500',
+  autofix: 'bg-emerald-500',
+  import: 'bg-violet-500',
+  upload: 'bg-amber-500',
+};
+
 const SmartTable: React.FC<SmartTableProps> = ({ 
     columns, 
     data, 
@@ -23,17 +40,24 @@ const SmartTable: React.FC<SmartTableProps> = ({
     onDataChange, 
     onRowsDelete, 
     onRowsUpdate,
-    onRowsAutoFix
+    onRowsAutoFix,
+    onRowsRegenerate,
+    onCancel,
+    provenance,
+    rosterChecks,
+    onCellsConfirm
 }) => {
   const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
   const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
   const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null);
   const [bulkEditConfig, setBulkEditConfig] = useState<{column: string, value: string}>({ column: '', value: '' });
+  const [editingCell, setEditingCell] = useState<{ rowIndex: number; key: string } | null>(null);
 
   // Clear selection when data length changes drastically (e.g. regen)
   useEffect(() => {
       setSelectedIndices(new Set());
       setLastSelectedIndex(null);
+      setEditingCell(null);
   }, [data.length]);
 
   // Helper to group columns by their "group" property
@@ -97,39 +121,33 @@ const SmartTable: React.FC<SmartTableProps> = ({
   // Determine header rows
   const hasGroups = Object.keys(groupedColumns.groups).length > 1 || groupedColumns.groups['Main']?.length !== columns.length;
 
-  const getCellStatus = (value: any, col: Column): { status: 'neutral' | 'success' | 'warning' | 'danger', message?: string } => {
-      // Basic heuristic highlighting
-      if (value === null || value === undefined || value === '') return { status: 'neutral' };
-      
-      if (col.subLabel) {
-          // Attempt to parse range
-          if (col.subLabel.includes('-')) {
-              const [min, max] = col.subLabel.split('-').map(parseFloat);
-              const numVal = parseFloat(value);
-              if (!isNaN(min) && !isNaN(max) && !isNaN(numVal)) {
-                  if (numVal < min || numVal > max) {
-                      return { status: 'danger', message: `Value must be between ${min} and ${max}` };
-                  }
-                  return { status: 'success', message: 'Value within compliant range' };
-              }
-          }
-          if (col.subLabel.includes('>')) {
-              const min = parseFloat(col.subLabel.replace('>', ''));
-              const numVal = parseFloat(value);
-               if (!isNaN(min) && !isNaN(numVal)) {
-                  if (numVal <= min) {
-                      return { status: 'danger', message: `Value must be greater than ${min}` };
-                  }
-                  return { status: 'success', message: 'Value meets minimum threshold' };
-              }
-          }
-      }
-      if (typeof value === 'string') {
-          const lower = value.toLowerCase();
-          if (lower.includes('fail') || lower.includes('error')) return { status: 'danger', message: 'Error detected in value' };
-          if (lower.includes('high')) return { status: 'warning', message: 'Value flagged as high' };
-      }
-      return { status: 'neutral' };
+  // Date cells keep their calendar picker; every other column gets an inline editor
+  const editableColumns = useMemo(() => columns.filter(c => c.type !== 'date'), [columns]);
+
+  const startEditing = (rowIndex: number, key: string) => {
+      if (!onDataChange || isLoading) return;
+      setEditingCell({ rowIndex, key });
+  };
+
+  const commitEdit = (rowIndex: number, key: string, value: string) => {
+      setEditingCell(null);
+      if (onDataChange) onDataChange(rowIndex, key, value);
+  };
+
+  // Move the editor to the next/previous editable cell in the visible (sorted) order
+  const navigateEdit = (rowIndex: number, key: string, direction: 'next' | 'prev') => {
+      const colPos = editableColumns.findIndex(c => c.key === key);
+      const rowPos = sortedDataWithIndices.findIndex(item => item.index === rowIndex);
+      if (colPos === -1 || rowPos === -1) return;
+
+      const step = direction === 'next' ? 1 : -1;
+      let nextCol = colPos + step;
+      let nextRow = rowPos;
+      if (nextCol >= editableColumns.length) { nextCol = 0; nextRow++; }
+      if (nextCol < 0) { nextCol = editableColumns.length - 1; nextRow--; }
+      if (nextRow < 0 || nextRow >= sortedDataWithIndices.length) return;
+
+      setEditingCell({ rowIndex: sortedDataWithIndices[nextRow].index, key: editableColumns[nextCol].key });
   };
 
   const toggleRow = (originalIndex: number, event: React.MouseEvent<HTMLInputElement>) => {
@@ -188,7 +206,7 @@ const SmartTable: React.FC<SmartTableProps> = ({
   const handleDeleteSelected = () => {
       if (selectedIndices.size === 0) return;
       
-      if (window.confirm(`Are you sure you want to delete ${selectedIndices.size} selected row(s)? This action cannot be undone.`)) {
+      if (window.confirm(`Are you sure you want to delete ${selectedIndices.size} selected row(s)? You can undo this with Ctrl+Z.`)) {
           if (onRowsDelete) {
               onRowsDelete(Array.from(selectedIndices));
               setSelectedIndices(new Set());
@@ -197,12 +215,26 @@ const SmartTable: React.FC<SmartTableProps> = ({
       }
   };
 
-  const handleAutoFixSelected = () => {
+  const handleAutoFixSelected = (engine: SimulationConfig['engine']) => {
       if (onRowsAutoFix) {
-          onRowsAutoFix(Array.from(selectedIndices));
+          onRowsAutoFix(Array.from(selectedIndices), engine);
       }
   };
 
+  const handleRegenerateSelected = () => {
+      if (onRowsRegenerate) {
+          onRowsRegenerate(Array.from(selectedIndices));
+      }
+  };
+
+  // Transcribed cells still flagged as uncertain or illegible
+  const unverifiedCount = useMemo(() => provenance ? countUnverifiedCells(provenance) : 0, [provenance]);
+  const selectedUnverified = Array.from(selectedIndices).flatMap((row: number) =>
+      columns.filter(col => provenance?.[row]?.[col.key]?.confidence).map(col => ({ row, key: col.key })));
+
+  const bulkEditColumn = columns.find(c => c.key === bulkEditConfig.column);
+  const bulkEditOptions = bulkEditColumn ? getColumnOptions(bulkEditColumn) : [];
+
   // Determine if checkbox in header is indeterminate
   const isAllSelected = sortedDataWithIndices.length > 0 && selectedIndices.size === sortedDataWithIndices.length;
   const isIndeterminate = selectedIndices.size > 0 && selectedIndices.size < sortedDataWithIndices.length;
@@ -213,6 +245,11 @@ const SmartTable: React.FC<SmartTableProps> = ({
               <div className="flex flex-col items-center gap-3">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 dark:border-indigo-400"></div>
                   <p className="text-slate-500 dark:text-slate-400 font-medium animate-pulse">{loadingMessage || 'Generating synthetic data...'}</p>
+                  {onCancel && (
+                      <button onClick={onCancel} className="text-xs font-medium text-red-600 dark:text-red-400 hover:underline">
+                          Cancel
+                      </button>
+                  )}
               </div>
           </div>
       )
@@ -232,6 +269,28 @@ const SmartTable: React.FC<SmartTableProps> = ({
   return (
     // The wrapper handles the rounding and scrolling
     <div className="w-full h-full flex flex-col relative">
+       {/* Live status while rows stream in */}
+       {isLoading && (
+           <div className="flex items-center gap-2 px-4 py-2 text-xs font-medium text-indigo-700 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 border-b border-indigo-100 dark:border-indigo-800">
+               <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-indigo-600 dark:border-indigo-400"></div>
+               <span className="truncate">{loadingMessage || 'Generating synthetic data...'}</span>
+               <span className="ml-auto text-indigo-500 dark:text-indigo-400 tabular-nums">{data.length} rows</span>
+               {onCancel && (
+                   <button onClick={onCancel} className="flex items-center gap-1 px-2 py-0.5 rounded text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20">
+                       <X className="w-3 h-3" />
+                       Cancel
+                   </button>
+               )}
+           </div>
+       )}
+       {!isLoading && unverifiedCount > 0 && (
+           <div className="flex items-center gap-2 px-4 py-2 text-xs font-medium text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-100 dark:border-amber-800">
+               <ScanLine className="w-3.5 h-3.5 flex-shrink-0" />
+               <span>
+                   {unverifiedCount} scanned cell{unverifiedCount === 1 ? '' : 's'} to verify against the original. Edit a cell to correct it, or confirm it when the reading is right.
+               </span>
+           </div>
+       )}
        <div className="flex-1 overflow-auto custom-scrollbar pb-20">
         <table className="w-full text-sm text-left text-slate-500 dark:text-slate-400 border-collapse">
             <thead className="text-xs text-slate-700 dark:text-slate-300 uppercase bg-slate-50 dark:bg-slate-850 sticky top-0 z-20 shadow-sm">
@@ -270,7 +329,7 @@ const SmartTable: React.FC<SmartTableProps> = ({
                     className="flex items-center justify-between gap-2 cursor-pointer group select-none"
                     onClick={() => handleSort(col.key)}
                     >
-                    <Tooltip content={`${col.label} ${col.subLabel ? `(${col.subLabel})` : ''}`}>
+                    <Tooltip content={`${col.label} ${col.subLabel ? `(${col.subLabel})` : ''}${col.validation ? ` — ${describeRule(col.validation)}` : ''}`}>
                         <div className="flex flex-col">
                             <span className="text-slate-900 dark:text-slate-200">{col.label}</span>
                             {col.subLabel && <span className="text-[10px] text-slate-400 dark:text-slate-500 normal-case">{col.subLabel}</span>}
@@ -309,13 +368,22 @@ const SmartTable: React.FC<SmartTableProps> = ({
 
                     {columns.map((col, colIndex) => {
                         const value = row[col.key];
-                        const { status, message } = getCellStatus(value, col);
+                        const ruleCheck = getCellStatus(value, col);
+                        // Roster problems show unless the value already breaks its column rule
+                        const rosterCheck = ruleCheck.status !== 'danger' ? rosterChecks?.[`${originalIndex}:${col.key}`] : undefined;
+                        const { status, message } = rosterCheck || ruleCheck;
+                        const origin = provenance?.[originalIndex]?.[col.key];
+                        const originDot = origin && PROVENANCE_DOT[origin.source];
+                        const unverified = origin?.confidence;
+                        // Declared select/status choices render as badges
+                        const option = col.options ? findOption(col, value) : undefined;
                         let cellClass = "px-4 py-2 border border-slate-100 dark:border-slate-800 font-mono text-xs whitespace-nowrap";
                         
                         if (status === 'danger') cellClass += " text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950/30 font-bold";
                         else if (status === 'success') cellClass += " text-emerald-700 dark:text-emerald-400";
                         else if (status === 'warning') cellClass += " text-amber-600 dark:text-amber-400";
                         else cellClass += " text-slate-600 dark:text-slate-300";
+                        if (unverified) cellClass += " ring-2 ring-inset ring-amber-400 dark:ring-amber-500";
 
                         return (
                             <td key={`${rowIndex}-${colIndex}`} className={cellClass}>
@@ -325,15 +393,52 @@ const SmartTable: React.FC<SmartTableProps> = ({
                                             value={value} 
                                             onChange={(newVal) => onDataChange && onDataChange(originalIndex, col.key, newVal)} 
                                         />
+                                    ) : editingCell?.rowIndex === originalIndex && editingCell.key === col.key ? (
+                                        <CellEditor 
+                                            column={col}
+                                            value={value}
+                                            onCommit={(newVal) => commitEdit(originalIndex, col.key, newVal)}
+                                            onCancel={() => setEditingCell(null)}
+                                            onNavigate={(direction) => navigateEdit(originalIndex, col.key, direction)}
+                                        />
                                     ) : (
-                                        <span>{value}</span>
+                                        <span 
+                                            onClick={() => startEditing(originalIndex, col.key)}
+                                            className={`min-w-[2rem] min-h-[1rem] inline-block ${onDataChange && !isLoading ? 'cursor-text hover:underline decoration-dotted decoration-slate-400 underline-offset-2' : ''}`}
+                                            title={[origin && describeProvenance(origin), onDataChange && 'Click to edit'].filter(Boolean).join('\n') || undefined}
+                                        >
+                                            {option ? <OptionBadge option={option} /> : value}
+                                        </span>
                                     )}
                                     
+                                    {originDot && (
+                                        <Tooltip content={describeProvenance(origin!)}>
+                                            <span className={`block w-1.5 h-1.5 rounded-full ${originDot} cursor-help`} />
+                                        </Tooltip>
+                                    )}
+
+                                    {unverified && onCellsConfirm && !isLoading && (
+                                        <Tooltip content={`${describeProvenance(origin!)}. Click to confirm.`}>
+                                            <button
+                                                onClick={() => onCellsConfirm([{ row: originalIndex, key: col.key }])}
+                                                className="text-amber-500 hover:text-emerald-600 dark:text-amber-400 dark:hover:text-emerald-400"
+                                                aria-label={`Confirm ${col.label}`}
+                                            >
+                                                <Check className="w-3 h-3" />
+                                            </button>
+                                        </Tooltip>
+                                    )}
+
                                     {status === 'danger' && message && (
                                         <Tooltip content={message}>
                                             <AlertCircle className="w-3 h-3 text-red-500 dark:text-red-400 cursor-help" />
                                         </Tooltip>
                                     )}
+                                    {rosterCheck?.status === 'warning' && (
+                                        <Tooltip content={rosterCheck.message || ''}>
+                                            <AlertCircle className="w-3 h-3 text-amber-500 dark:text-amber-400 cursor-help" />
+                                        </Tooltip>
+                                    )}
                                 </div>
                             </td>
                         );
@@ -376,12 +481,23 @@ const SmartTable: React.FC<SmartTableProps> = ({
                            {columns.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
                        </select>
 
-                       {bulkEditConfig.column && columns.find(c => c.key === bulkEditConfig.column)?.type === 'date' ? (
+                       {bulkEditColumn?.type === 'date' ? (
                            <DatePicker 
                                value={bulkEditConfig.value}
                                onChange={(val) => setBulkEditConfig({ ...bulkEditConfig, value: val })}
                                className="w-32 border border-slate-300 dark:border-slate-600 rounded-md px-2 py-1"
                            />
+                       ) : bulkEditOptions.length > 0 ? (
+                           <select 
+                               value={bulkEditConfig.value}
+                               onChange={(e) => setBulkEditConfig({ ...bulkEditConfig, value: e.target.value })}
+                               className="text-xs border border-slate-300 dark:border-slate-600 rounded-md px-2 py-1.5 bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none w-24 sm:w-32"
+                           >
+                               <option value="">— Empty —</option>
+                               {bulkEditOptions.map(opt => (
+                                   <option key={opt.value} value={opt.value}>{opt.label ? `${opt.value} — ${opt.label}` : opt.value}</option>
+                               ))}
+                           </select>
                        ) : (
                            <input 
                                type="text" 
@@ -407,7 +523,7 @@ const SmartTable: React.FC<SmartTableProps> = ({
                    <div className="flex items-center gap-2 w-full sm:w-auto">
                        {onRowsAutoFix && (
                            <button 
-                               onClick={handleAutoFixSelected}
+                               onClick={() => handleAutoFixSelected('ai')}
                                disabled={isLoading}
                                className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 px-3 py-1.5 bg-emerald-50 hover:bg-emerald-100 dark:bg-emerald-900/20 dark:hover:bg-emerald-900/40 text-emerald-700 dark:text-emerald-400 rounded-md text-xs font-semibold transition-colors border border-emerald-200 dark:border-emerald-800 disabled:opacity-60 disabled:cursor-not-allowed"
                                title="AI Auto-Correct Anomalies"
@@ -420,6 +536,39 @@ const SmartTable: React.FC<SmartTableProps> = ({
                                {isLoading ? 'Fixing...' : 'Auto-Correct'}
                            </button>
                        )}
+                       {onRowsAutoFix && (
+                           <button 
+                               onClick={() => handleAutoFixSelected('offline')}
+                               disabled={isLoading}
+                               className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 px-3 py-1.5 bg-emerald-50 hover:bg-emerald-100 dark:bg-emerald-900/20 dark:hover:bg-emerald-900/40 text-emerald-700 dark:text-emerald-400 rounded-md text-xs font-semibold transition-colors border border-emerald-200 dark:border-emerald-800 disabled:opacity-60 disabled:cursor-not-allowed"
+                               title="Pull readings into range and add corrective actions using the column rules (no API call)"
+                           >
+                               <Wrench className="w-3.5 h-3.5" />
+                               Rule Fix
+                           </button>
+                       )}
+                       {onRowsRegenerate && (
+                           <button 
+                               onClick={handleRegenerateSelected}
+                               disabled={isLoading}
+                               className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 px-3 py-1.5 bg-indigo-50 hover:bg-indigo-100 dark:bg-indigo-900/20 dark:hover:bg-indigo-900/40 text-indigo-700 dark:text-indigo-400 rounded-md text-xs font-semibold transition-colors border border-indigo-200 dark:border-indigo-800 disabled:opacity-60 disabled:cursor-not-allowed"
+                               title="Generate these rows again, consistent with the rest of the sheet"
+                           >
+                               <RefreshCw className="w-3.5 h-3.5" />
+                               Regenerate
+                           </button>
+                       )}
+                       {onCellsConfirm && selectedUnverified.length > 0 && (
+                           <button
+                               onClick={() => onCellsConfirm(selectedUnverified)}
+                               disabled={isLoading}
+                               className="flex-1 sm:flex-none flex items-center justify-center gap-1.5 px-3 py-1.5 bg-amber-50 hover:bg-amber-100 dark:bg-amber-900/20 dark:hover:bg-amber-900/40 text-amber-700 dark:text-amber-400 rounded-md text-xs font-semibold transition-colors border border-amber-200 dark:border-amber-800 disabled:opacity-60 disabled:cursor-not-allowed"
+                               title="Mark the flagged scanned cells of these rows as checked against the original"
+                           >
+                               <CheckCheck className="w-3.5 h-3.5" />
+                               Confirm {selectedUnverified.length}
+                           </button>
+                       )}
                        <button 
                            onClick={handleDeleteSelected}
                            disabled={isLoading}
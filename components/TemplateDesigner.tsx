@@ -0,0 +1,474 @@
+import React, { useState, useMemo } from 'react';
+import { TableTemplate, Column, ColumnOption, ValidationRule, RowAxis } from '../types';
+import SmartTable from './SmartTable';
+import { Tooltip } from './Tooltip';
+import { describeRule } from '../services/validation';
+import { buildRowSkeleton } from '../services/rowSkeleton';
+import {
+  Plus,
+  Trash2,
+  Save,
+  X,
+  ArrowUp,
+  ArrowDown,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  LayoutTemplate
+} from 'lucide-react';
+
+interface TemplateDesignerProps {
+  template: TableTemplate; // Template being edited (a fresh or cloned draft for new templates)
+  isNew: boolean;
+  onSave: (template: TableTemplate) => void;
+  onCancel: () => void;
+}
+
+const COLUMN_TYPES: Column['type'][] = ['text', 'number', 'date', 'time', 'select', 'status'];
+const ROW_AXIS_LABELS: Record<RowAxis['kind'], string> = {
+  days: 'Days of the month',
+  weeks: 'ISO weeks of the month',
+  assets: 'Fixed list of assets',
+  free: 'Free rows (Default Rows)',
+};
+const PREVIEW_ROWS = 3;
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Derive a unique column key from its group and label, e.g. "Free Chlorine" + "9:00 AM" -> "free_chlorine_9_00_am"
+const makeColumnKey = (col: Pick<Column, 'label' | 'group'>, existingKeys: string[]) => {
+  const base = slugify([col.group, col.label].filter(Boolean).join(' ')) || 'column';
+  let key = base;
+  let n = 2;
+  while (existingKeys.includes(key)) key = `${base}_${n++}`;
+  return key;
+};
+
+export const createBlankTemplate = (): TableTemplate => ({
+  id: `custom-${Date.now()}`,
+  name: 'Untitled Log Sheet',
+  description: '',
+  context: '',
+  columns: [
+    { key: 'day', label: 'Day', type: 'number', width: '50px', validation: { min: 1, max: 31, required: true } },
+  ],
+  defaultRows: 31,
+  rowAxis: { kind: 'days', column: 'day' },
+  aiRules: '',
+});
+
+export const cloneTemplate = (template: TableTemplate): TableTemplate => ({
+  ...template,
+  id: `custom-${Date.now()}`,
+  name: `${template.name} (Copy)`,
+  columns: template.columns.map(c => ({
+    ...c,
+    validation: c.validation ? { ...c.validation } : undefined,
+    options: c.options?.map(o => ({ ...o })),
+  })),
+  rowAxis: template.rowAxis ? { ...template.rowAxis } : undefined,
+});
+
+const inputClass = "w-full px-2 py-1.5 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-md text-xs focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+const labelClass = "block text-[10px] font-semibold text-slate-500 dark:text-slate-400 uppercase mb-1";
+
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = Number(value);
+  return isNaN(n) ? undefined : n;
+};
+
+// Drop empty fields so saved rules stay minimal
+const cleanRule = (rule: ValidationRule): ValidationRule | undefined => {
+  const cleaned = Object.fromEntries(
+    Object.entries(rule).filter(([, v]) => v !== undefined && v !== false && v !== '' && !(Array.isArray(v) && v.length === 0))
+  ) as ValidationRule;
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+export const TemplateDesigner: React.FC<TemplateDesignerProps> = ({ template, isNew, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<TableTemplate>(template);
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  const groups = useMemo(
+    () => Array.from(new Set(draft.columns.map(c => c.group).filter((g): g is string => !!g))),
+    [draft.columns]
+  );
+
+  // Preview the first rows of the current month so computed axis cells are visible
+  const previewData = useMemo(
+    () => buildRowSkeleton(draft, new Date().toISOString().slice(0, 7)).rows.slice(0, PREVIEW_ROWS),
+    [draft]
+  );
+
+  const handleRowAxisChange = (kind: RowAxis['kind'] | '') => {
+    const current = draft.rowAxis;
+    const column = current && current.kind !== 'free' ? current.column : draft.columns[0]?.key || '';
+    let rowAxis: RowAxis | undefined;
+    if (kind === 'free') rowAxis = { kind };
+    else if (kind === 'assets') rowAxis = { kind, column, assets: current?.kind === 'assets' ? current.assets : [] };
+    else if (kind) rowAxis = { kind, column };
+    setDraft({ ...draft, rowAxis });
+  };
+
+  const axisColumn = draft.rowAxis && draft.rowAxis.kind !== 'free' ? draft.rowAxis.column : '';
+
+  const setAxisColumn = (column: string) => {
+    setDraft(prev => (prev.rowAxis && prev.rowAxis.kind !== 'free' ? { ...prev, rowAxis: { ...prev.rowAxis, column } } : prev));
+  };
+
+  const setAxisAssets = (text: string) => {
+    setDraft(prev => (prev.rowAxis?.kind === 'assets' ? { ...prev, rowAxis: { ...prev.rowAxis, assets: text.split('\n') } } : prev));
+  };
+
+  const updateColumn = (index: number, changes: Partial<Column>) => {
+    setDraft(prev => ({
+      ...prev,
+      columns: prev.columns.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }));
+  };
+
+  const updateRule = (index: number, changes: Partial<ValidationRule>) => {
+    const col = draft.columns[index];
+    updateColumn(index, { validation: cleanRule({ ...(col.validation || {}), ...changes }) });
+  };
+
+  const updateOption = (colIndex: number, optIndex: number, changes: Partial<ColumnOption>) => {
+    const options = (draft.columns[colIndex].options || []).map((o, i) => (i === optIndex ? { ...o, ...changes } : o));
+    updateColumn(colIndex, { options });
+  };
+
+  const addColumn = () => {
+    const existingKeys = draft.columns.map(c => c.key);
+    const lastGroup = draft.columns[draft.columns.length - 1]?.group;
+    const newColumn: Column = { key: '', label: 'New Column', type: 'text', group: lastGroup };
+    newColumn.key = makeColumnKey(newColumn, existingKeys);
+    setDraft(prev => ({ ...prev, columns: [...prev.columns, newColumn] }));
+    setExpandedIndex(draft.columns.length);
+  };
+
+  const duplicateColumn = (index: number) => {
+    const source = draft.columns[index];
+    const copy: Column = { ...source, validation: source.validation ? { ...source.validation } : undefined, options: source.options?.map(o => ({ ...o })) };
+    copy.key = makeColumnKey(copy, draft.columns.map(c => c.key));
+    setDraft(prev => ({ ...prev, columns: [...prev.columns.slice(0, index + 1), copy, ...prev.columns.slice(index + 1)] }));
+    setExpandedIndex(index + 1);
+  };
+
+  const removeColumn = (index: number) => {
+    setDraft(prev => ({ ...prev, columns: prev.columns.filter((_, i) => i !== index) }));
+    setExpandedIndex(null);
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.columns.length) return;
+    setDraft(prev => {
+      const columns = [...prev.columns];
+      [columns[index], columns[target]] = [columns[target], columns[index]];
+      return { ...prev, columns };
+    });
+    if (expandedIndex === index) setExpandedIndex(target);
+  };
+
+  const handleTypeChange = (index: number, type: Column['type']) => {
+    const col = draft.columns[index];
+    const needsOptions = type === 'select' || type === 'status';
+    updateColumn(index, {
+      type,
+      options: needsOptions ? (col.options && col.options.length > 0 ? col.options : [{ value: 'Yes' }, { value: 'No' }]) : undefined,
+    });
+  };
+
+  const getErrors = (): string[] => {
+    const errors: string[] = [];
+    if (!draft.name.trim()) errors.push('Template name is required.');
+    if (draft.columns.length === 0) errors.push('Add at least one column.');
+    if (!Number.isInteger(draft.defaultRows) || draft.defaultRows < 1) errors.push('Default rows must be a positive whole number.');
+    const axis = draft.rowAxis;
+    if (axis && axis.kind !== 'free' && !draft.columns.some(c => c.key === axis.column)) errors.push('Choose the column that holds the row axis.');
+    if (axis?.kind === 'assets' && !axis.assets.some(a => a.trim())) errors.push('List at least one asset for the row axis.');
+
+    const seen = new Set<string>();
+    draft.columns.forEach((c, i) => {
+      if (!c.key.trim()) errors.push(`Column ${i + 1} needs a key.`);
+      else if (seen.has(c.key)) errors.push(`Duplicate column key "${c.key}".`);
+      seen.add(c.key);
+      if (!c.label.trim()) errors.push(`Column ${i + 1} needs a label.`);
+      const rule = c.validation;
+      if (rule?.min !== undefined && rule?.max !== undefined && rule.min > rule.max) {
+        errors.push(`"${c.label}": minimum is greater than maximum.`);
+      }
+      if ((c.type === 'select' || c.type === 'status') && !(c.options && c.options.some(o => o.value.trim()))) {
+        errors.push(`"${c.label}": add at least one option.`);
+      }
+    });
+    return errors;
+  };
+
+  const handleSave = () => {
+    const errors = getErrors();
+    if (errors.length > 0) {
+      alert(`Please fix the following before saving:\n\n${errors.join('\n')}`);
+      return;
+    }
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      rowAxis: draft.rowAxis?.kind === 'assets'
+        ? { ...draft.rowAxis, assets: draft.rowAxis.assets.map(a => a.trim()).filter(Boolean) }
+        : draft.rowAxis,
+      columns: draft.columns.map(c => ({
+        ...c,
+        key: c.key.trim(),
+        group: c.group?.trim() || undefined,
+        subLabel: c.subLabel?.trim() || undefined,
+        width: c.width?.trim() || undefined,
+        options: c.options?.filter(o => o.value.trim()),
+      })),
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-slate-900 lg:rounded-xl border-x lg:border border-slate-200 dark:border-slate-800 shadow-sm overflow-hidden transition-colors duration-200">
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/50">
+        <div className="flex items-center gap-3">
+          <div className="bg-indigo-100 dark:bg-indigo-900/30 p-2 rounded-lg text-indigo-600 dark:text-indigo-400">
+            <LayoutTemplate className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-slate-900 dark:text-white">{isNew ? 'New Template' : 'Edit Template'}</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Design columns, groups and validation ranges for a log sheet.</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg text-sm font-medium">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-lg text-sm font-medium shadow-md">
+            <Save className="w-4 h-4" />
+            Save Template
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 lg:p-6 space-y-6">
+        {/* Template Details */}
+        <section className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-3">
+            <label className={labelClass}>Name</label>
+            <input type="text" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} placeholder="e.g. P-05-R1: Jacuzzi Parameters" />
+          </div>
+          <div>
+            <label className={labelClass}>Default Rows</label>
+            <input type="number" min={1} value={draft.defaultRows} onChange={e => setDraft({ ...draft, defaultRows: parseInt(e.target.value) || 0 })} className={inputClass} />
+          </div>
+          <div className="md:col-span-4">
+            <label className={labelClass}>Description</label>
+            <input type="text" value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} className={inputClass} placeholder="Shown in the sidebar tooltip" />
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>Context</label>
+            <textarea value={draft.context} onChange={e => setDraft({ ...draft, context: e.target.value })} className={`${inputClass} h-20`} placeholder="What the sheet records, which standards apply..." />
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>AI Rules</label>
+            <textarea value={draft.aiRules} onChange={e => setDraft({ ...draft, aiRules: e.target.value })} className={`${inputClass} h-20`} placeholder="Specific instructions for generating rows..." />
+          </div>
+          <div>
+            <label className={labelClass}>Rows</label>
+            <select value={draft.rowAxis?.kind || ''} onChange={e => handleRowAxisChange(e.target.value as RowAxis['kind'] | '')} className={inputClass}>
+              <option value="">Automatic</option>
+              {(Object.keys(ROW_AXIS_LABELS) as RowAxis['kind'][]).map(kind => <option key={kind} value={kind}>{ROW_AXIS_LABELS[kind]}</option>)}
+            </select>
+          </div>
+          {draft.rowAxis && draft.rowAxis.kind !== 'free' && (
+            <div>
+              <label className={labelClass}>Axis Column</label>
+              <select value={axisColumn} onChange={e => setAxisColumn(e.target.value)} className={inputClass}>
+                {!draft.columns.some(c => c.key === axisColumn) && <option value="">— Choose —</option>}
+                {draft.columns.map(c => <option key={c.key} value={c.key}>{c.label} ({c.key})</option>)}
+              </select>
+            </div>
+          )}
+          {draft.rowAxis?.kind === 'assets' && (
+            <div className="md:col-span-2">
+              <label className={labelClass}>Assets (one per line)</label>
+              <textarea
+                value={draft.rowAxis.assets.join('\n')}
+                onChange={e => setAxisAssets(e.target.value)}
+                className={`${inputClass} h-20`}
+                placeholder={'Main Pool\nKids Pool\nSpa'}
+              />
+            </div>
+          )}
+        </section>
+
+        {/* Columns */}
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wider">Columns ({draft.columns.length})</h3>
+            <button onClick={addColumn} className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-50 hover:bg-indigo-100 dark:bg-indigo-900/20 dark:hover:bg-indigo-900/40 text-indigo-700 dark:text-indigo-400 rounded-md text-xs font-semibold border border-indigo-200 dark:border-indigo-800">
+              <Plus className="w-3.5 h-3.5" />
+              Add Column
+            </button>
+          </div>
+
+          <datalist id="designer-groups">
+            {groups.map(g => <option key={g} value={g} />)}
+          </datalist>
+
+          <div className="space-y-2">
+            {draft.columns.map((col, index) => {
+              const isExpanded = expandedIndex === index;
+              const rule = col.validation || {};
+              const ruleSummary = describeRule(col.validation);
+              return (
+                <div key={index} className="border border-slate-200 dark:border-slate-800 rounded-lg bg-slate-50 dark:bg-slate-850">
+                  <div className="flex flex-wrap items-end gap-2 p-2">
+                    <button onClick={() => setExpandedIndex(isExpanded ? null : index)} className="p-1.5 mb-0.5 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200" title="Rules & options">
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </button>
+                    <div className="w-32">
+                      <label className={labelClass}>Group</label>
+                      <input type="text" list="designer-groups" value={col.group || ''} onChange={e => updateColumn(index, { group: e.target.value })} className={inputClass} placeholder="None" />
+                    </div>
+                    <div className="flex-1 min-w-[120px]">
+                      <label className={labelClass}>Label</label>
+                      <input type="text" value={col.label} onChange={e => updateColumn(index, { label: e.target.value })} className={inputClass} />
+                    </div>
+                    <div className="w-32">
+                      <label className={labelClass}>Sub-label</label>
+                      <input type="text" value={col.subLabel || ''} onChange={e => updateColumn(index, { subLabel: e.target.value })} className={inputClass} placeholder="e.g. ppm" />
+                    </div>
+                    <div className="w-24">
+                      <label className={labelClass}>Type</label>
+                      <select value={col.type} onChange={e => handleTypeChange(index, e.target.value as Column['type'])} className={inputClass}>
+                        {COLUMN_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                    </div>
+                    <div className="w-32">
+                      <label className={labelClass}>Key</label>
+                      <input type="text" value={col.key} onChange={e => updateColumn(index, { key: slugify(e.target.value) || e.target.value })} className={`${inputClass} font-mono`} />
+                    </div>
+                    <div className="w-20">
+                      <label className={labelClass}>Width</label>
+                      <input type="text" value={col.width || ''} onChange={e => updateColumn(index, { width: e.target.value })} className={inputClass} placeholder="auto" />
+                    </div>
+                    <div className="flex items-center gap-0.5 mb-0.5">
+                      <Tooltip content="Move up">
+                        <button onClick={() => moveColumn(index, -1)} disabled={index === 0} className="p-1.5 text-slate-400 hover:text-indigo-600 disabled:opacity-30"><ArrowUp className="w-3.5 h-3.5" /></button>
+                      </Tooltip>
+                      <Tooltip content="Move down">
+                        <button onClick={() => moveColumn(index, 1)} disabled={index === draft.columns.length - 1} className="p-1.5 text-slate-400 hover:text-indigo-600 disabled:opacity-30"><ArrowDown className="w-3.5 h-3.5" /></button>
+                      </Tooltip>
+                      <Tooltip content="Duplicate column">
+                        <button onClick={() => duplicateColumn(index)} className="p-1.5 text-slate-400 hover:text-indigo-600"><Copy className="w-3.5 h-3.5" /></button>
+                      </Tooltip>
+                      <Tooltip content="Remove column">
+                        <button onClick={() => removeColumn(index)} className="p-1.5 text-slate-400 hover:text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>
+                      </Tooltip>
+                    </div>
+                  </div>
+
+                  {!isExpanded && ruleSummary && (
+                    <p className="px-10 pb-2 -mt-1 text-[10px] text-slate-400 dark:text-slate-500 font-mono">Rule: {ruleSummary}</p>
+                  )}
+
+                  {isExpanded && (
+                    <div className="px-10 pb-3 pt-1 space-y-3 border-t border-slate-200 dark:border-slate-800">
+                      {col.type === 'number' && (
+                        <div className="flex flex-wrap items-end gap-4">
+                          <div className="w-24">
+                            <label className={labelClass}>Min</label>
+                            <input type="number" step="any" value={rule.min ?? ''} onChange={e => updateRule(index, { min: parseOptionalNumber(e.target.value) })} className={inputClass} />
+                          </div>
+                          <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300 mb-1.5">
+                            <input type="checkbox" checked={!!rule.exclusiveMin} onChange={e => updateRule(index, { exclusiveMin: e.target.checked })} />
+                            Exclusive
+                          </label>
+                          <div className="w-24">
+                            <label className={labelClass}>Max</label>
+                            <input type="number" step="any" value={rule.max ?? ''} onChange={e => updateRule(index, { max: parseOptionalNumber(e.target.value) })} className={inputClass} />
+                          </div>
+                          <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300 mb-1.5">
+                            <input type="checkbox" checked={!!rule.exclusiveMax} onChange={e => updateRule(index, { exclusiveMax: e.target.checked })} />
+                            Exclusive
+                          </label>
+                        </div>
+                      )}
+
+                      {col.type === 'text' && (
+                        <div className="flex flex-wrap items-end gap-4">
+                          <div className="flex-1 min-w-[160px]">
+                            <label className={labelClass}>Allowed Values (comma separated)</label>
+                            <input
+                              type="text"
+                              value={(rule.allowedValues || []).join(', ')}
+                              onChange={e => updateRule(index, { allowedValues: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                              className={inputClass}
+                              placeholder="Any value"
+                            />
+                          </div>
+                          <div className="flex-1 min-w-[160px]">
+                            <label className={labelClass}>Pattern (regex)</label>
+                            <input type="text" value={rule.pattern || ''} onChange={e => updateRule(index, { pattern: e.target.value || undefined })} className={`${inputClass} font-mono`} placeholder="e.g. [A-Z]{2}-\d+" />
+                          </div>
+                        </div>
+                      )}
+
+                      {(col.type === 'select' || col.type === 'status') && (
+                        <div className="space-y-1.5">
+                          <label className={labelClass}>Options (first is the normal value)</label>
+                          {(col.options || []).map((opt, optIndex) => (
+                            <div key={optIndex} className="flex items-center gap-2">
+                              <input type="text" value={opt.value} onChange={e => updateOption(index, optIndex, { value: e.target.value })} className={`${inputClass} w-24`} placeholder="Value" />
+                              <input type="text" value={opt.label || ''} onChange={e => updateOption(index, optIndex, { label: e.target.value || undefined })} className={`${inputClass} flex-1`} placeholder="Label (optional)" />
+                              {col.type === 'status' && (
+                                <select value={opt.severity || ''} onChange={e => updateOption(index, optIndex, { severity: (e.target.value || undefined) as ColumnOption['severity'] })} className={`${inputClass} w-28`}>
+                                  <option value="">No severity</option>
+                                  <option value="ok">OK</option>
+                                  <option value="warning">Warning</option>
+                                  <option value="critical">Critical</option>
+                                </select>
+                              )}
+                              <button onClick={() => updateColumn(index, { options: (col.options || []).filter((_, i) => i !== optIndex) })} className="p-1 text-slate-400 hover:text-red-500">
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          ))}
+                          <button onClick={() => updateColumn(index, { options: [...(col.options || []), { value: '' }] })} className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline font-medium">
+                            + Add option
+                          </button>
+                        </div>
+                      )}
+
+                      <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300">
+                        <input type="checkbox" checked={!!rule.required} onChange={e => updateRule(index, { required: e.target.checked })} />
+                        Required (empty cells are flagged)
+                      </label>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+
+        {/* Live Preview */}
+        <section>
+          <h3 className="text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wider mb-2">Header Preview</h3>
+          <div className="h-64 overflow-auto rounded-lg border border-slate-200 dark:border-slate-800">
+            {draft.columns.length > 0 ? (
+              <SmartTable columns={draft.columns} data={previewData} isLoading={false} />
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-slate-400">Add a column to see the preview.</div>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
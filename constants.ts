@@ -1,4 +1,4 @@
-import { TableTemplate, MaintenanceDocument } from './types';
+import { TableTemplate, MaintenanceDocument, StaffMember, ScenarioLibrary } from './types';
 
 export const COMMON_VALIDATION_RULES = {
   text: {
@@ -21,13 +21,14 @@ export const COMMON_VALIDATION_RULES = {
   }
 };
 
-export const ANOMALY_SCENARIOS = {
+export const ANOMALY_SCENARIOS: ScenarioLibrary = {
   water_quality: {
     high_ph: { condition: "pH > 7.8", outcome: "Scale formation risk", corrective_action: "Added pH decreaser (Acid)." },
     low_ph: { condition: "pH < 7.2", outcome: "Corrosive water", corrective_action: "Added pH increaser (Soda Ash)." },
     low_chlorine: { condition: "Chlorine < 1.0 ppm", outcome: "Bacteria growth risk", corrective_action: "Manual shock dosage applied." },
     high_chlorine: { condition: "Chlorine > 3.0 ppm", outcome: "Skin irritation risk", corrective_action: "Stopped dosing, added fresh water." },
-    high_combined_chlorine: { condition: "Combined Chlorine > 1.0 ppm", outcome: "Chloramines present", corrective_action: "Performed breakpoint chlorination." }
+    high_combined_chlorine: { condition: "Combined Chlorine > 1.0 ppm", outcome: "Chloramines present", corrective_action: "Performed breakpoint chlorination." },
+    high_cyanuric_acid: { condition: "Cyanuric Acid > 80 ppm", outcome: "Chlorine efficacy reduced", corrective_action: "Partial drain and refill with fresh water." }
   },
   equipment_maintenance: {
     high_pressure: { condition: "Pressure Differential > 10 PSI", outcome: "Filter clogged", corrective_action: "Performed backwash cycle." },
@@ -50,25 +51,29 @@ export const TEMPLATES: TableTemplate[] = [
     description: 'Daily tracking of Free Cl, Combined Cl, and pH (3x daily), plus Turbidity and Cyanuric Acid.',
     context: 'Swimming Pool Chemical Control. Monitoring Free Chlorine (1-3 ppm), Combined Chlorine (max 1 ppm), and pH (7.2-7.8) at 9AM, 11AM, and 3PM.',
     defaultRows: 31,
-    aiRules: 'Generate 31 rows representing days 1-31. Fill 9AM, 11AM, 3PM columns for Free Cl, Combined Cl, and pH. Keep values mostly compliant. Occasional deviations in pH or Cl should have a note in "Corrective action". Turbidity usually "N". Cyanuric Acid < 80.',
+    rowAxis: { kind: 'days', column: 'day' },
+    aiRules: 'One row per day of the month. Fill 9AM, 11AM, 3PM columns for Free Cl, Combined Cl, and pH. Keep values mostly compliant. Occasional deviations in pH or Cl should have a note in "Corrective action". Turbidity usually "N". Cyanuric Acid < 80.',
     columns: [
-        { key: 'day', label: 'Day', type: 'number', width: '50px' },
+        { key: 'day', label: 'Day', type: 'number', width: '50px', validation: { min: 1, max: 31, required: true } },
         // Free Chlorine
-        { key: 'fcl_9am', label: '9:00 AM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number' },
-        { key: 'fcl_11am', label: '11:00 AM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number' },
-        { key: 'fcl_3pm', label: '3:00 PM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number' },
+        { key: 'fcl_9am', label: '9:00 AM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number', validation: { min: 1, max: 3 } },
+        { key: 'fcl_11am', label: '11:00 AM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number', validation: { min: 1, max: 3 } },
+        { key: 'fcl_3pm', label: '3:00 PM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number', validation: { min: 1, max: 3 } },
         // Combined Chlorine
-        { key: 'ccl_9am', label: '9:00 AM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number' },
-        { key: 'ccl_11am', label: '11:00 AM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number' },
-        { key: 'ccl_3pm', label: '3:00 PM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number' },
+        { key: 'ccl_9am', label: '9:00 AM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number', validation: { min: 0, max: 1 } },
+        { key: 'ccl_11am', label: '11:00 AM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number', validation: { min: 0, max: 1 } },
+        { key: 'ccl_3pm', label: '3:00 PM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number', validation: { min: 0, max: 1 } },
         // pH
-        { key: 'ph_9am', label: '9:00 AM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number' },
-        { key: 'ph_11am', label: '11:00 AM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number' },
-        { key: 'ph_3pm', label: '3:00 PM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number' },
+        { key: 'ph_9am', label: '9:00 AM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number', validation: { min: 7.2, max: 7.8 } },
+        { key: 'ph_11am', label: '11:00 AM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number', validation: { min: 7.2, max: 7.8 } },
+        { key: 'ph_3pm', label: '3:00 PM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number', validation: { min: 7.2, max: 7.8 } },
         // Others
-        { key: 'turbidity', label: 'Turbidity', subLabel: 'Y/N', type: 'text' },
-        { key: 'cyanuric', label: 'Cyanuric Acid', subLabel: '< 80ppm', type: 'number' },
-        { key: 'add_fresh_water', label: 'Add 5% Fresh Water', type: 'text' },
+        { key: 'turbidity', label: 'Turbidity', subLabel: 'Y/N', type: 'status', options: [
+            { value: 'N', label: 'No', severity: 'ok' },
+            { value: 'Y', label: 'Yes', severity: 'critical' }
+        ] },
+        { key: 'cyanuric', label: 'Cyanuric Acid', subLabel: '< 80ppm', type: 'number', validation: { min: 0, max: 80, exclusiveMax: true } },
+        { key: 'add_fresh_water', label: 'Add 5% Fresh Water', type: 'select', options: [{ value: 'No' }, { value: 'Yes' }] },
         { key: 'corrective_action', label: 'Corrective Action', type: 'text', width: '200px' },
         { key: 'name', label: 'Name', type: 'text' }
     ]
@@ -78,10 +83,11 @@ export const TEMPLATES: TableTemplate[] = [
     name: 'P-01-R2: Monthly & Annual Tasks',
     description: 'Annual equipment revision and sand media replacement tracking.',
     context: 'Pool Maintenance - Monthly and Annual Tasks. General revision of equipment and sand media replacement.',
-    defaultRows: 10,
-    aiRules: 'Generate rows for different pools (e.g., Main Pool, Kids Pool, Spa, Lap Pool). Dates should be distributed throughout the year for annual tasks. "By whom" should be a name or "EC".',
+    defaultRows: 4,
+    rowAxis: { kind: 'assets', column: 'pool_name', assets: ['Main Pool', 'Kids Pool', 'Spa', 'Lap Pool'] },
+    aiRules: 'One row per pool. Dates should be distributed throughout the year for annual tasks. "By whom" should be a name or "EC".',
     columns: [
-        { key: 'pool_name', label: 'Pool Name / Location', type: 'text', width: '250px' },
+        { key: 'pool_name', label: 'Pool Name / Location', type: 'text', width: '250px', validation: { required: true } },
         { key: 'general_revision', label: 'General Revision', subLabel: 'Annually', type: 'date' },
         { key: 'sand_media', label: 'Sand Media Revision', subLabel: 'Annually', type: 'date' },
         { key: 'by_whom', label: 'By Whom', subLabel: 'EC', type: 'text' }
@@ -91,11 +97,12 @@ export const TEMPLATES: TableTemplate[] = [
     id: 'P-01-R3',
     name: 'P-01-R3: Pool Cleaning Schedule',
     description: 'Weekly cleaning log supervised by internal recreation staff.',
-    context: 'Pool Cleaning Log. 4 Weeks. Daily checks (Mon-Sun).',
-    defaultRows: 4,
-    aiRules: 'Generate exactly 4 rows: "Week 1", "Week 2", "Week 3", "Week 4". Columns Mon-Sun should have checkmarks ("✓") or initials indicating cleaning was done. Notes should occasionally mention "Deep cleaning" or "Chlorine shock".',
+    context: 'Pool Cleaning Log. One row per calendar week. Daily checks (Mon-Sun).',
+    defaultRows: 5,
+    rowAxis: { kind: 'weeks', column: 'week' },
+    aiRules: 'One row per ISO week of the month. Columns Mon-Sun should have checkmarks ("✓") or initials indicating cleaning was done. Notes should occasionally mention "Deep cleaning" or "Chlorine shock".',
     columns: [
-        { key: 'week', label: 'Week', type: 'text', width: '100px' },
+        { key: 'week', label: 'Week', type: 'text', width: '100px', validation: { required: true } },
         { key: 'mon', label: 'Monday', type: 'text' },
         { key: 'tue', label: 'Tuesday', type: 'text' },
         { key: 'wed', label: 'Wednesday', type: 'text' },
@@ -112,24 +119,28 @@ export const TEMPLATES: TableTemplate[] = [
     description: 'Daily tracking for Spa: Chlorine, pH, Turbidity (3x daily).',
     context: 'Spa Chemical Control. Higher temperature environment. Monitoring Free Chlorine (1-3 ppm), Combined Chlorine (max 1 ppm), and pH (7.2-7.8) three times a day.',
     defaultRows: 31,
-    aiRules: 'Generate 31 rows for a month. Spa maintenance. Fill 9AM, 11AM, 3PM columns. Note: High bather load often affects Combined Chlorine in Spas.',
+    rowAxis: { kind: 'days', column: 'day' },
+    aiRules: 'One row per day of the month. Spa maintenance. Fill 9AM, 11AM, 3PM columns. Note: High bather load often affects Combined Chlorine in Spas.',
     columns: [
-         { key: 'day', label: 'Day', type: 'number', width: '50px' },
+         { key: 'day', label: 'Day', type: 'number', width: '50px', validation: { min: 1, max: 31, required: true } },
         // Free Chlorine
-        { key: 'fcl_9am', label: '9:00 AM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number' },
-        { key: 'fcl_11am', label: '11:00 AM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number' },
-        { key: 'fcl_3pm', label: '3:00 PM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number' },
+        { key: 'fcl_9am', label: '9:00 AM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number', validation: { min: 1, max: 3 } },
+        { key: 'fcl_11am', label: '11:00 AM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number', validation: { min: 1, max: 3 } },
+        { key: 'fcl_3pm', label: '3:00 PM', subLabel: 'Free Cl (1-3)', group: 'Free Chlorine', type: 'number', validation: { min: 1, max: 3 } },
         // Combined Chlorine
-        { key: 'ccl_9am', label: '9:00 AM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number' },
-        { key: 'ccl_11am', label: '11:00 AM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number' },
-        { key: 'ccl_3pm', label: '3:00 PM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number' },
+        { key: 'ccl_9am', label: '9:00 AM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number', validation: { min: 0, max: 1 } },
+        { key: 'ccl_11am', label: '11:00 AM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number', validation: { min: 0, max: 1 } },
+        { key: 'ccl_3pm', label: '3:00 PM', subLabel: 'Comb Cl (max 1)', group: 'Combined Chlorine', type: 'number', validation: { min: 0, max: 1 } },
         // pH
-        { key: 'ph_9am', label: '9:00 AM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number' },
-        { key: 'ph_11am', label: '11:00 AM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number' },
-        { key: 'ph_3pm', label: '3:00 PM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number' },
+        { key: 'ph_9am', label: '9:00 AM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number', validation: { min: 7.2, max: 7.8 } },
+        { key: 'ph_11am', label: '11:00 AM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number', validation: { min: 7.2, max: 7.8 } },
+        { key: 'ph_3pm', label: '3:00 PM', subLabel: 'pH (7.2-7.8)', group: 'pH', type: 'number', validation: { min: 7.2, max: 7.8 } },
         // Others
-        { key: 'turbidity', label: 'Turbidity', subLabel: 'Y/N', type: 'text' },
-        { key: 'cyanuric', label: 'Cyanuric Acid', subLabel: '< 80ppm', type: 'number' },
+        { key: 'turbidity', label: 'Turbidity', subLabel: 'Y/N', type: 'status', options: [
+            { value: 'N', label: 'No', severity: 'ok' },
+            { value: 'Y', label: 'Yes', severity: 'critical' }
+        ] },
+        { key: 'cyanuric', label: 'Cyanuric Acid', subLabel: '< 80ppm', type: 'number', validation: { min: 0, max: 80, exclusiveMax: true } },
         { key: 'name', label: 'Name', type: 'text' }
     ]
   },
@@ -139,18 +150,19 @@ export const TEMPLATES: TableTemplate[] = [
     description: 'Monitor daily chlorine and pH levels at different times.',
     context: 'Potable Water and Legionella Control - Daily Chlorine & pH in sprinklers of Irrigation water.',
     defaultRows: 31,
-    aiRules: 'Generate data for a full month (rows 1-31). Columns include readings for 9:00 AM, 11:00 AM, 3:00 PM, and 8:00 PM. Constraints: CL > 1.0 ppm, pH 7.2-7.8. If values are out of range, provide a "Corrective action".',
+    rowAxis: { kind: 'days', column: 'date' },
+    aiRules: 'One row per day of the month. Columns include readings for 9:00 AM, 11:00 AM, 3:00 PM, and 8:00 PM. Constraints: CL > 1.0 ppm, pH 7.2-7.8. If values are out of range, provide a "Corrective action".',
     columns: [
       { key: 'record_id', label: 'ID', type: 'text', width: '60px' },
-      { key: 'date', label: 'Date', type: 'number', width: '60px' },
-      { key: 'cl_9am', label: 'CL', subLabel: '>1.0 ppm', group: '9:00 AM Check', type: 'number' },
-      { key: 'ph_9am', label: 'pH', subLabel: '7.2-7.8', group: '9:00 AM Check', type: 'number' },
-      { key: 'cl_11am', label: 'CL', subLabel: '>1.0 ppm', group: '11:00 AM Check', type: 'number' },
-      { key: 'ph_11am', label: 'pH', subLabel: '7.2-7.8', group: '11:00 AM Check', type: 'number' },
-      { key: 'cl_3pm', label: 'CL', subLabel: '>1.0 ppm', group: '3:00 PM Check', type: 'number' },
-      { key: 'ph_3pm', label: 'pH', subLabel: '7.2-7.8', group: '3:00 PM Check', type: 'number' },
-      { key: 'cl_8pm', label: 'CL', subLabel: '>0.5 ppm', group: '8:00 PM End Check', type: 'number' },
-      { key: 'ph_8pm', label: 'pH', subLabel: '7.2-7.8', group: '8:00 PM End Check', type: 'number' },
+      { key: 'date', label: 'Date', type: 'number', width: '60px', validation: { min: 1, max: 31, required: true } },
+      { key: 'cl_9am', label: 'CL', subLabel: '>1.0 ppm', group: '9:00 AM Check', type: 'number', validation: { min: 1.0, exclusiveMin: true } },
+      { key: 'ph_9am', label: 'pH', subLabel: '7.2-7.8', group: '9:00 AM Check', type: 'number', validation: { min: 7.2, max: 7.8 } },
+      { key: 'cl_11am', label: 'CL', subLabel: '>1.0 ppm', group: '11:00 AM Check', type: 'number', validation: { min: 1.0, exclusiveMin: true } },
+      { key: 'ph_11am', label: 'pH', subLabel: '7.2-7.8', group: '11:00 AM Check', type: 'number', validation: { min: 7.2, max: 7.8 } },
+      { key: 'cl_3pm', label: 'CL', subLabel: '>1.0 ppm', group: '3:00 PM Check', type: 'number', validation: { min: 1.0, exclusiveMin: true } },
+      { key: 'ph_3pm', label: 'pH', subLabel: '7.2-7.8', group: '3:00 PM Check', type: 'number', validation: { min: 7.2, max: 7.8 } },
+      { key: 'cl_8pm', label: 'CL', subLabel: '>0.5 ppm', group: '8:00 PM End Check', type: 'number', validation: { min: 0.5, exclusiveMin: true } },
+      { key: 'ph_8pm', label: 'pH', subLabel: '7.2-7.8', group: '8:00 PM End Check', type: 'number', validation: { min: 7.2, max: 7.8 } },
       { key: 'corrective_action', label: 'Corrective Action / Comment', type: 'text', width: '250px' },
       { key: 'checked_by', label: 'Checked By', type: 'text' },
     ]
@@ -161,14 +173,15 @@ export const TEMPLATES: TableTemplate[] = [
     description: 'Chemical parameters tracking for ornamental fountains (2x Daily).',
     context: 'Ornamental Fountains Chemical parameters. Tracking Free Chlorine and pH twice daily.',
     defaultRows: 31,
-    aiRules: 'Generate daily logs (rows 1-31). Two checks per day (10:00 AM and 5:00 PM). Rules: Free Chlorine 1-3 ppm, pH 7.2-7.8. "Add 5% fresh water" column should be yes/no or amount. If parameters deviate, note in Observation.',
+    rowAxis: { kind: 'days', column: 'date' },
+    aiRules: 'Daily log, one row per day of the month. Two checks per day (10:00 AM and 5:00 PM). Rules: Free Chlorine 1-3 ppm, pH 7.2-7.8. "Add 5% fresh water" column should be yes/no or amount. If parameters deviate, note in Observation.',
     columns: [
-      { key: 'date', label: 'Date', type: 'number', width: '60px' },
-      { key: 'cl_10am', label: 'Free Chlorine', subLabel: '1-3 ppm', group: '10:00 AM', type: 'number' },
-      { key: 'ph_10am', label: 'pH', subLabel: '7.2-7.8', group: '10:00 AM', type: 'number' },
-      { key: 'cl_5pm', label: 'Free Chlorine', subLabel: '1-3 ppm', group: '5:00 PM', type: 'number' },
-      { key: 'ph_5pm', label: 'pH', subLabel: '7.2-7.8', group: '5:00 PM', type: 'number' },
-      { key: 'add_water', label: 'Add 5% Fresh Water', type: 'text' },
+      { key: 'date', label: 'Date', type: 'number', width: '60px', validation: { min: 1, max: 31, required: true } },
+      { key: 'cl_10am', label: 'Free Chlorine', subLabel: '1-3 ppm', group: '10:00 AM', type: 'number', validation: { min: 1, max: 3 } },
+      { key: 'ph_10am', label: 'pH', subLabel: '7.2-7.8', group: '10:00 AM', type: 'number', validation: { min: 7.2, max: 7.8 } },
+      { key: 'cl_5pm', label: 'Free Chlorine', subLabel: '1-3 ppm', group: '5:00 PM', type: 'number', validation: { min: 1, max: 3 } },
+      { key: 'ph_5pm', label: 'pH', subLabel: '7.2-7.8', group: '5:00 PM', type: 'number', validation: { min: 7.2, max: 7.8 } },
+      { key: 'add_water', label: 'Add 5% Fresh Water', type: 'select', options: [{ value: 'No' }, { value: 'Yes' }] },
       { key: 'observation', label: 'Observation / Corrective Action', type: 'text', width: '250px' },
       { key: 'done_by', label: 'Done By', type: 'text' },
     ]
@@ -179,9 +192,10 @@ export const TEMPLATES: TableTemplate[] = [
     description: 'Maintenance log for backwashing sand filters.',
     context: 'Domestic Water and Legionella Control - Backwashing (Sand Filters). Irrigation tank.',
     defaultRows: 31,
-    aiRules: 'Daily log (1-31). Identify which filter was backwashed. If no backwash, leave empty or note status. Include observations if pressure differential was high.',
+    rowAxis: { kind: 'days', column: 'date' },
+    aiRules: 'Daily log, one row per day of the month. Identify which filter was backwashed. If no backwash, leave empty or note status. Include observations if pressure differential was high.',
     columns: [
-      { key: 'date', label: 'Date', type: 'number', width: '60px' },
+      { key: 'date', label: 'Date', type: 'number', width: '60px', validation: { min: 1, max: 31, required: true } },
       { key: 'filter_id', label: 'Filter', type: 'text' },
       { key: 'observation', label: 'Corrective Action / Observation', type: 'text', width: '300px' },
       { key: 'checked_by', label: 'Checked By', type: 'text' },
@@ -193,9 +207,10 @@ export const TEMPLATES: TableTemplate[] = [
     description: 'Cleaning and Shock Chlorination of Irrigation tank.',
     context: 'Cleaning and Shock Chlorination of Irrigation tank and network. Hyper chlorination every 1-3 months.',
     defaultRows: 10,
+    rowAxis: { kind: 'free' },
     aiRules: 'This is not daily. Generate distinct dates over a year. Shock levels: 25ppm for 24hrs OR 50ppm for 4hrs. Final reading closest point should be ~0.5ppm. Fill realistic tank numbers.',
     columns: [
-      { key: 'date', label: 'Date', type: 'date' },
+      { key: 'date', label: 'Date', type: 'date', validation: { required: true } },
       { key: 'tank_loc', label: 'Tank Number / Location', type: 'text' },
       { key: 'cl_tank', label: 'Chlorine Level in Tank', subLabel: 'After adding', type: 'text' },
       { key: 'cl_furthest', label: 'Chlorine @ Furthest', subLabel: '25ppm/24hr or 50ppm/4hr', type: 'text' },
@@ -209,6 +224,7 @@ export const TEMPLATES: TableTemplate[] = [
     description: 'Descaling & Disinfection log.',
     context: 'Quarterly Descaling & Disinfection of Irrigation Sprinkler Heads.',
     defaultRows: 5,
+    rowAxis: { kind: 'free' },
     aiRules: 'List groups of sprinklers cleaned. Example: "All of them", "Zone A", "North Garden". Date should be formatted Day/Month. Signatures should be names.',
     columns: [
       { key: 'date', label: 'Date', type: 'text', width: '100px' },
@@ -218,7 +234,15 @@ export const TEMPLATES: TableTemplate[] = [
   }
 ];
 
-export const MOCK_NAMES = ["J. Smith", "A. Doe", "M. Garcia", "K. Lee", "R. Johnson", "B. Davis"];
+// Starting roster until the user edits it in the roster manager
+export const DEFAULT_ROSTER: StaffMember[] = [
+  { id: 'staff-1', name: 'J. Smith', initials: 'JS', role: 'Pool Technician', workingDays: [0, 1, 2, 3, 4], shiftStart: '07:00', shiftEnd: '15:00' },
+  { id: 'staff-2', name: 'A. Doe', initials: 'AD', role: 'Pool Technician', workingDays: [2, 3, 4, 5, 6], shiftStart: '07:00', shiftEnd: '15:00' },
+  { id: 'staff-3', name: 'M. Garcia', initials: 'MG', role: 'Pool Technician', workingDays: [0, 1, 4, 5, 6], shiftStart: '13:00', shiftEnd: '21:00' },
+  { id: 'staff-4', name: 'K. Lee', initials: 'KL', role: 'Maintenance Engineer', workingDays: [0, 1, 2, 3, 4], shiftStart: '08:00', shiftEnd: '16:00' },
+  { id: 'staff-5', name: 'R. Johnson', initials: 'RJ', role: 'Supervisor', workingDays: [0, 1, 2, 3, 4], shiftStart: '09:00', shiftEnd: '17:00' },
+  { id: 'staff-6', name: 'B. Davis', initials: 'BD', role: 'Pool Technician', workingDays: [1, 2, 3, 5, 6], shiftStart: '13:00', shiftEnd: '21:00' },
+];
 
 export const INITIAL_DOCUMENTS: MaintenanceDocument[] = [
   {
@@ -0,0 +1,103 @@
+import { useState, useCallback } from 'react';
+import { RowData, RowProvenance, DeletedRow } from '../types';
+import { trackProvenance, trackDeletedRows, ProvenanceStamp } from '../services/provenance';
+
+// Command history for table rows. Every mutation is committed as one labelled step,
+// so a whole generation or AutoFix run can be undone at once. Cell provenance travels
+// with the rows, so undo restores it too.
+
+interface Snapshot {
+  rows: RowData[];
+  provenance: RowProvenance[]; // Parallel to rows
+  deletedRows: DeletedRow[]; // Rows removed from the sheet, for the audit log
+}
+
+interface HistoryEntry extends Snapshot {
+  label: string;
+}
+
+interface HistoryState {
+  past: HistoryEntry[]; // Rows before each committed step
+  present: Snapshot;
+  future: HistoryEntry[]; // Rows after each undone step
+}
+
+type RowsUpdate = RowData[] | ((prev: RowData[]) => RowData[]);
+
+const MAX_HISTORY = 100;
+
+export const useTableHistory = (initialRows: RowData[] = []) => {
+  const [state, setState] = useState<HistoryState>({ past: [], present: { rows: initialRows, provenance: [], deletedRows: [] }, future: [] });
+
+  // `stamp` records who or what made the change on every cell it alters
+  const commit = useCallback((label: string, update: RowsUpdate, stamp: ProvenanceStamp) => {
+    setState(prev => {
+      const next = typeof update === 'function' ? update(prev.present.rows) : update;
+      if (next === prev.present.rows) return prev;
+      const { rows, provenance, deletedRows } = prev.present;
+      const at = Date.now();
+      return {
+        past: [...prev.past, { label, ...prev.present }].slice(-MAX_HISTORY),
+        present: {
+          rows: next,
+          provenance: trackProvenance(rows, provenance, next, stamp, at),
+          deletedRows: [...deletedRows, ...trackDeletedRows(rows, provenance, next, stamp, at)],
+        },
+        future: [],
+      };
+    });
+  }, []);
+
+  // A step that changes only provenance, e.g. confirming scanned cells; the rows stay the same
+  const commitProvenance = useCallback((label: string, update: (provenance: RowProvenance[]) => RowProvenance[]) => {
+    setState(prev => ({
+      past: [...prev.past, { label, ...prev.present }].slice(-MAX_HISTORY),
+      present: { ...prev.present, provenance: update(prev.present.provenance) },
+      future: [],
+    }));
+  }, []);
+
+  // Replace the rows without recording a step (e.g. when a different sheet is opened)
+  const reset = useCallback((rows: RowData[], provenance: RowProvenance[] = [], deletedRows: DeletedRow[] = []) => {
+    setState({ past: [], present: { rows, provenance, deletedRows }, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      const entry = prev.past[prev.past.length - 1];
+      if (!entry) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: { rows: entry.rows, provenance: entry.provenance, deletedRows: entry.deletedRows },
+        future: [{ label: entry.label, ...prev.present }, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => {
+      const entry = prev.future[0];
+      if (!entry) return prev;
+      return {
+        past: [...prev.past, { label: entry.label, ...prev.present }],
+        present: { rows: entry.rows, provenance: entry.provenance, deletedRows: entry.deletedRows },
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  return {
+    rows: state.present.rows,
+    provenance: state.present.provenance,
+    deletedRows: state.present.deletedRows,
+    commit,
+    commitProvenance,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undoLabel: state.past[state.past.length - 1]?.label,
+    redoLabel: state.future[0]?.label,
+  };
+};
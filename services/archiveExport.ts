@@ -0,0 +1,24 @@
+import JSZip from 'jszip';
+import { TableTemplate, PdfExportOptions } from '../types';
+import { exportTableToXlsx, MonthSheet } from './xlsxExport';
+import { exportTableToPdf } from './pdfExport';
+import { toFileSlug } from './fileDownload';
+
+/**
+ * Zip archive with a print-ready PDF and an XLSX workbook for every month of a range run,
+ * e.g. p_01_r1__pool_chemical_parameters_2025-01.pdf
+ */
+export const exportMonthsToZip = async (
+  template: TableTemplate,
+  sheets: MonthSheet[],
+  pdfOptions: PdfExportOptions
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const baseName = toFileSlug(template.name);
+
+  for (const sheet of sheets) {
+    zip.file(`${baseName}_${sheet.month}.pdf`, exportTableToPdf(template, sheet.rows, sheet.month, pdfOptions));
+    zip.file(`${baseName}_${sheet.month}.xlsx`, await exportTableToXlsx(template, sheet.rows, sheet.month, sheet.provenance, sheet.deletedRows));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
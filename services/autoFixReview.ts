@@ -0,0 +1,82 @@
+import { TableTemplate, Column, RowData } from '../types';
+import { getCellStatus, isEmptyValue } from './validation';
+import { getRowAxis } from './rowSkeleton';
+
+type CellValue = RowData[string];
+
+// Cell-level review of AutoFix proposals: what changed, which violations each change resolves,
+// and merging only the accepted cells back into the sheet.
+
+export interface CellChange {
+  id: string; // `${rowIndex}:${key}`, stable while the dialog is open
+  rowIndex: number; // Index in the table
+  key: string;
+  before: CellValue;
+  after: CellValue;
+  violationBefore?: string; // Rule message of the original value, if it broke the rule
+  violationAfter?: string; // Rule message of the proposed value, if it still breaks one
+}
+
+const sameValue = (a: CellValue, b: CellValue) =>
+  (isEmptyValue(a) && isEmptyValue(b)) || String(a ?? '').trim() === String(b ?? '').trim();
+
+const getViolation = (value: CellValue, col: Column): string | undefined => {
+  const check = getCellStatus(value, col);
+  return check.status === 'danger' ? check.message || 'Invalid value' : undefined;
+};
+
+// The column that identifies a row (day, week, asset); free-form sheets have none
+export const getRowKeyColumn = (template: TableTemplate): string | undefined => {
+  const axis = getRowAxis(template);
+  return axis.kind === 'free' ? undefined : axis.column;
+};
+
+/**
+ * Lists every cell the fix would change. Rows are matched on the row key column when its
+ * values are unique, so a reordered response still lines up; otherwise by position. The key
+ * column itself is never changed, and blank rows (padding for a short response) are ignored.
+ */
+export const diffFixedRows = (
+  template: TableTemplate,
+  indices: number[],
+  originalRows: RowData[],
+  fixedRows: RowData[]
+): CellChange[] => {
+  const keyColumn = getRowKeyColumn(template);
+  const fixedKeys = keyColumn ? fixedRows.map(row => String(row[keyColumn] ?? '')) : [];
+  const canMatchByKey = keyColumn !== undefined && new Set(fixedKeys).size === fixedKeys.length;
+  const changes: CellChange[] = [];
+
+  indices.forEach((rowIndex, i) => {
+    const original = originalRows[i];
+    const fixed = canMatchByKey ? fixedRows[fixedKeys.indexOf(String(original[keyColumn!] ?? ''))] : fixedRows[i];
+    if (!original || !fixed || Object.values(fixed).every(isEmptyValue)) return;
+
+    template.columns.forEach(col => {
+      if (col.key === keyColumn) return;
+      const before = original[col.key] ?? null;
+      const after = fixed[col.key] ?? null;
+      if (sameValue(before, after)) return;
+      changes.push({
+        id: `${rowIndex}:${col.key}`,
+        rowIndex,
+        key: col.key,
+        before,
+        after,
+        violationBefore: getViolation(before, col),
+        violationAfter: getViolation(after, col),
+      });
+    });
+  });
+  return changes;
+};
+
+// Writes the accepted changes into the rows; everything else is left as it is now
+export const applyCellChanges = (rows: RowData[], changes: CellChange[]): RowData[] => {
+  const next = [...rows];
+  changes.forEach(change => {
+    if (!next[change.rowIndex]) return;
+    next[change.rowIndex] = { ...next[change.rowIndex], [change.key]: change.after };
+  });
+  return next;
+};
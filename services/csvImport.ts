@@ -0,0 +1,196 @@
+import { Column, RowData } from '../types';
+import { coerceCellValue, findOption, getCellStatus, isEmptyValue } from './validation';
+
+// CSV/TSV import into an existing template: parsing, header-to-column mapping,
+// type coercion and a validation report for rows that break the column rules.
+
+export type Delimiter = ',' | ';' | '\t';
+
+export interface ParsedTable {
+  delimiter: Delimiter;
+  records: string[][]; // Every non-empty line, header rows included
+}
+
+export interface ImportIssue {
+  row: number; // 1-based data row number, as shown to the user
+  column: string; // Column label
+  value: string;
+  message: string;
+}
+
+export interface ImportResult {
+  rows: RowData[];
+  issues: ImportIssue[];
+  invalidRowCount: number;
+}
+
+// Template column key -> index of the file column, or null when unmapped
+export type ColumnMapping = Record<string, number | null>;
+
+const detectDelimiter = (firstLine: string): Delimiter => {
+  const counts: [Delimiter, number][] = (['\t', ';', ','] as Delimiter[]).map(d => [d, firstLine.split(d).length - 1]);
+  const best = counts.reduce((a, b) => (b[1] > a[1] ? b : a));
+  return best[1] > 0 ? best[0] : ',';
+};
+
+/**
+ * Parses CSV/TSV text (RFC 4180 quoting, CRLF or LF line endings, optional BOM).
+ * The delimiter is detected from the first line unless given.
+ */
+export const parseDelimitedText = (text: string, delimiter?: Delimiter): ParsedTable => {
+  const source = text.replace(/^\uFEFF/, '');
+  const sep = delimiter || detectDelimiter(source.split(/\r?\n/, 1)[0] || '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some(cell => cell.trim() !== '')) records.push(record);
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === sep) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) endRecord();
+
+  return { delimiter: sep, records };
+};
+
+/**
+ * Builds one header name per file column. With two header rows the group row is
+ * carried across the empty cells left by merged headers, e.g. "Free Chlorine 9:00 AM".
+ */
+export const getHeaderNames = (parsed: ParsedTable, headerRows: number): string[] => {
+  const width = Math.max(0, ...parsed.records.slice(0, Math.max(headerRows, 1) + 5).map(r => r.length));
+  const header = parsed.records.slice(0, headerRows);
+  return Array.from({ length: width }, (_, c) => {
+    const parts: string[] = [];
+    header.forEach((row, r) => {
+      let cell = (row[c] || '').trim();
+      // Only the upper (group) rows inherit from the left
+      if (!cell && r < header.length - 1) {
+        for (let prev = c - 1; prev >= 0 && !cell; prev--) cell = (row[prev] || '').trim();
+      }
+      if (cell && !parts.includes(cell)) parts.push(cell);
+    });
+    return parts.join(' ') || `Column ${c + 1}`;
+  });
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// Names a file header may use for a column, most specific first
+const getCandidateNames = (col: Column): string[] => {
+  const names = [
+    [col.group, col.label, col.subLabel],
+    [col.group, col.label],
+    [col.label, col.subLabel],
+    [col.label],
+    [col.subLabel],
+    [col.key],
+  ];
+  return names
+    .map(parts => normalize(parts.filter(Boolean).join(' ')))
+    .filter((name, i, all) => name && all.indexOf(name) === i);
+};
+
+/**
+ * Suggests a file column for every template column by matching labels, sub-labels and
+ * groups. Repeated labels (e.g. eleven "9:00 AM" columns in a flat CSV) are assigned in order.
+ */
+export const suggestColumnMapping = (headers: string[], columns: Column[]): ColumnMapping => {
+  const normalizedHeaders = headers.map(normalize);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  columns.forEach(col => {
+    const candidates = getCandidateNames(col);
+    let match: number | null = null;
+    for (const name of candidates) {
+      const index = normalizedHeaders.findIndex((header, i) => !used.has(i) && header === name);
+      if (index !== -1) {
+        match = index;
+        break;
+      }
+    }
+    if (match !== null) used.add(match);
+    mapping[col.key] = match;
+  });
+  return mapping;
+};
+
+// Accepts a decimal comma ("1,5") as written by European spreadsheet locales
+const coerceImportedValue = (raw: string, col: Column): string | number | null => {
+  const trimmed = raw.trim();
+  if (col.type === 'number' && /^-?\d+,\d+$/.test(trimmed)) {
+    return Number(trimmed.replace(',', '.'));
+  }
+  const value = coerceCellValue(trimmed, col);
+  // Store the canonical option value when the file uses the option label ("Yes" -> "Y")
+  const option = col.options ? findOption(col, value) : undefined;
+  return option ? option.value : value;
+};
+
+/**
+ * Converts the data records into rows using the mapping and checks each cell against its
+ * column rule. Invalid values are still imported so they can be reviewed and fixed in the table.
+ */
+export const applyColumnMapping = (
+  parsed: ParsedTable,
+  headerRows: number,
+  columns: Column[],
+  mapping: ColumnMapping
+): ImportResult => {
+  const issues: ImportIssue[] = [];
+  const invalidRows = new Set<number>();
+
+  const rows = parsed.records.slice(headerRows).map((record, r) => {
+    const row: RowData = {};
+    columns.forEach(col => {
+      const index = mapping[col.key];
+      const raw = index === null || index === undefined ? '' : record[index] ?? '';
+      const value = coerceImportedValue(raw, col);
+      row[col.key] = value;
+
+      if (index === null || index === undefined) return;
+      const check = getCellStatus(value, col);
+      const isBadNumber = col.type === 'number' && !isEmptyValue(value) && typeof value !== 'number';
+      if (check.status === 'danger' || isBadNumber) {
+        issues.push({
+          row: r + 1,
+          column: col.label + (col.group ? ` (${col.group})` : ''),
+          value: raw.trim(),
+          message: isBadNumber ? 'Not a number' : check.message || 'Out of range',
+        });
+        invalidRows.add(r);
+      }
+    });
+    return row;
+  });
+
+  return { rows, issues, invalidRowCount: invalidRows.size };
+};
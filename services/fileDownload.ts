@@ -0,0 +1,20 @@
+// Browser download helpers shared by the CSV, template and spreadsheet exports
+
+export const toFileSlug = (name: string): string =>
+  name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (content: string, fileName: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
@@ -0,0 +1,98 @@
+import { RowData, FillScope } from '../types';
+import { RowSkeleton } from './rowSkeleton';
+import { isEmptyValue } from './validation';
+
+// Planning for partial runs: which rows a generator fills and which existing cells it must keep.
+// Kept cells are sent to the model as fixed context and always win over generated values.
+
+// Existing rows shown to the model around the rows being filled
+const CONTEXT_ROWS = 8;
+
+export interface FillPlan {
+  rows: RowData[]; // The sheet being written, aligned to the calendar for full and blank fills
+  targets: number[]; // Indices of the rows to generate, ascending
+  locked: RowData[]; // Per target: cells that must be kept as they are
+  hints: string[]; // Per target: calendar context for prompts ('' when unknown)
+}
+
+const axisKey = (row: RowData, keys: string[]) => keys.map(k => String(row[k] ?? '')).join('|');
+
+/**
+ * Lines existing rows up with the skeleton by their axis cells, falling back to position when
+ * none match (e.g. a sheet from before the template had an axis). Unmatched rows are appended.
+ */
+export const alignRowsToSkeleton = (skeleton: RowSkeleton, currentRows: RowData[]): RowData[] => {
+  const keys = skeleton.fixedKeys;
+  const byKey = new Map(currentRows.map((row, i) => [axisKey(row, keys), i]));
+  const matchesByKey = keys.length > 0 && skeleton.rows.some(fixed => byKey.has(axisKey(fixed, keys)));
+  const used = new Set<number>();
+
+  const aligned = skeleton.rows.map((fixed, i) => {
+    const index = matchesByKey ? byKey.get(axisKey(fixed, keys)) : i;
+    if (index === undefined || index >= currentRows.length) return { ...fixed };
+    used.add(index);
+    return { ...currentRows[index], ...fixed };
+  });
+  return [...aligned, ...currentRows.filter((_, i) => !used.has(i))];
+};
+
+const lockFilledCells = (row: RowData): RowData =>
+  Object.fromEntries(Object.entries(row).filter(([, value]) => !isEmptyValue(value)));
+
+/**
+ * Decides what a run writes. 'all' fills the skeleton from scratch, 'blanks' fills the empty
+ * cells of the aligned sheet, and 'rows' regenerates the chosen rows keeping only their axis cells.
+ */
+export const planFill = (skeleton: RowSkeleton, currentRows: RowData[], fillKeys: string[], scope: FillScope = { kind: 'all' }): FillPlan => {
+  if (scope.kind === 'all') {
+    return {
+      rows: skeleton.rows.map(fixed => ({ ...fixed })),
+      targets: skeleton.rows.map((_, i) => i),
+      locked: skeleton.rows,
+      hints: skeleton.rows.map((_, i) => skeleton.hints[i] || ''),
+    };
+  }
+
+  if (scope.kind === 'blanks') {
+    const rows = alignRowsToSkeleton(skeleton, currentRows);
+    const targets = rows.map((_, i) => i).filter(i => fillKeys.some(key => isEmptyValue(rows[i][key]) && !(key in (skeleton.rows[i] || {}))));
+    return {
+      rows,
+      targets,
+      locked: targets.map(i => ({ ...lockFilledCells(rows[i]), ...(skeleton.rows[i] || {}) })),
+      hints: targets.map(i => skeleton.hints[i] || ''),
+    };
+  }
+
+  const hintsByKey = new Map(skeleton.rows.map((fixed, i) => [axisKey(fixed, skeleton.fixedKeys), skeleton.hints[i] || '']));
+  const targets = Array.from(new Set(scope.rowIndices)).filter(i => i >= 0 && i < currentRows.length).sort((a, b) => a - b);
+  return {
+    rows: currentRows.map(row => ({ ...row })),
+    targets,
+    locked: targets.map(i => Object.fromEntries(skeleton.fixedKeys.filter(k => k in currentRows[i]).map(k => [k, currentRows[i][k]]))),
+    hints: targets.map(i => skeleton.fixedKeys.length > 0 ? hintsByKey.get(axisKey(currentRows[i], skeleton.fixedKeys)) || '' : ''),
+  };
+};
+
+// Writes generated rows into the plan's target slots; locked cells always win
+export const applyFill = (plan: FillPlan, generated: RowData[]): RowData[] => {
+  const rows = [...plan.rows];
+  generated.forEach((row, i) => {
+    if (i < plan.targets.length) rows[plan.targets[i]] = { ...rows[plan.targets[i]], ...row, ...plan.locked[i] };
+  });
+  return rows;
+};
+
+// Existing rows nearest to a batch, skipping the rows being filled and rows with no values
+export const getContextRows = (plan: FillPlan, batchTargets: number[], fillKeys: string[]): RowData[] => {
+  if (batchTargets.length === 0) return [];
+  const targetSet = new Set(plan.targets);
+  const center = batchTargets[Math.floor(batchTargets.length / 2)];
+  return plan.rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row, index }) => !targetSet.has(index) && fillKeys.some(key => !isEmptyValue(row[key])))
+    .sort((a, b) => Math.abs(a.index - center) - Math.abs(b.index - center))
+    .slice(0, CONTEXT_ROWS)
+    .sort((a, b) => a.index - b.index)
+    .map(({ row }) => row);
+};
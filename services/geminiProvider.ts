@@ -0,0 +1,51 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { LlmSettings } from '../types';
+import type { LlmProvider, JsonRequest } from './llmProvider';
+
+const getClient = (settings: LlmSettings) => {
+  const apiKey = settings.apiKey || process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key is missing");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+export const createGeminiProvider = (settings: LlmSettings): LlmProvider => ({
+  name: `Gemini (${settings.model})`,
+  generateJson: async (request: JsonRequest) => {
+    const client = getClient(settings);
+
+    const contents = request.file
+      ? [
+          { inlineData: { mimeType: request.file.mimeType, data: request.file.data } },
+          { text: request.prompt }
+        ]
+      : request.prompt;
+
+    const params = {
+      model: settings.model,
+      contents,
+      config: {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: request.responseSchema,
+        temperature: request.temperature,
+        seed: request.seed,
+        abortSignal: request.signal,
+      }
+    };
+
+    if (request.onText) {
+      let text = '';
+      const stream = await client.models.generateContentStream(params);
+      for await (const chunk of stream) {
+        text += chunk.text || '';
+        request.onText(text);
+      }
+      return text;
+    }
+
+    const response: GenerateContentResponse = await client.models.generateContent(params);
+    return response.text || '';
+  }
+});
@@ -1,21 +1,55 @@
-import { GoogleGenAI, Type, Schema, GenerateContentResponse } from "@google/genai";
-import { TableTemplate, SimulationConfig, RowData } from '../types';
+import { Type, Schema } from "@google/genai";
+import { TableTemplate, SimulationConfig, RowData, GenerationOptions, AnalysisOptions, Column, ConfidenceFlag } from '../types';
 import { COMMON_VALIDATION_RULES, ANOMALY_SCENARIOS } from '../constants';
-
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing");
-  }
-  return new GoogleGenAI({ apiKey });
-};
-
-// Helper function to wait for a specified time
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+import { describeColumn, getColumnOptions, findOption, isEmptyValue, getRuleDecimals } from './validation';
+import { getProvider } from './llmProvider';
+import { buildRowSkeleton } from './rowSkeleton';
+import { planFill, applyFill, getContextRows } from './fillScope';
+import { isPersonColumn, assignRosterNames, describeRoster } from './roster';
+import { applyIncidents, describeIncidents, getIncidentsForMonth } from './incidents';
+import { withResponseCache, getCacheScope } from './responseCache';
+import { createSeededRandom, deriveSeed } from './seededRandom';
+import {
+  parseModelJson,
+  parsePartialRows,
+  validateModelRows,
+  sanitizeExtractedColumns,
+  sanitizeConfidenceFlags,
+  isBetterBatch,
+  createQualityReport,
+  mergeQualityReports,
+  ValidatedBatch
+} from './responseValidation';
+
+// Number of trailing rows from the previous month shown to the model in range runs
+const CONTINUITY_ROWS = 3;
+
+// Rejection used when the user cancels a run; carries the rows that were already complete
+export const createAbortError = (partialRows: RowData[] = []) =>
+  Object.assign(new Error('Generation cancelled'), { name: 'AbortError', partialRows });
+
+// True for user cancellations, including aborted fetches inside the providers
+export const isAbortError = (error: unknown): error is Error & { partialRows?: RowData[] } =>
+  (error as { name?: string })?.name === 'AbortError';
+
+// Helper function to wait for a specified time; rejects early when the signal aborts
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
 
 // Helper function to retry an operation with exponential backoff
 const retryWithBackoff = async <T>(
   operation: () => Promise<T>, 
+  signal?: AbortSignal,
   retries = 5, // Increased retries to handle strict rate limits
   baseDelay = 3000, 
   maxDelay = 120000 // Increased max delay to 2 minutes
@@ -67,11 +101,11 @@ const retryWithBackoff = async <T>(
       // Cap the delay
       delay = Math.min(delay, maxDelay);
 
-      console.warn(`Gemini API rate limited (Code: ${code}). Retrying in ${Math.round(delay)}ms... (Attempts left: ${retries})`);
+      console.warn(`Model API rate limited (Code: ${code}). Retrying in ${Math.round(delay)}ms... (Attempts left: ${retries})`);
       
-      await wait(delay);
+      await wait(delay, signal);
       // Pass the calculated delay (or a slightly larger base) for the next iteration if this one fails again
-      return retryWithBackoff(operation, retries - 1, Math.min(baseDelay * 2, maxDelay), maxDelay);
+      return retryWithBackoff(operation, signal, retries - 1, Math.min(baseDelay * 2, maxDelay), maxDelay);
     }
     
     // If not retriable or retries exhausted, throw the error
@@ -79,78 +113,215 @@ const retryWithBackoff = async <T>(
   }
 };
 
-export const generateTableData = async (
-  template: TableTemplate,
-  config: SimulationConfig,
-  currentRows: RowData[],
-  onProgress?: (message: string) => void
-): Promise<RowData[]> => {
-  const client = getClient();
-  
-  // Construct a dynamic schema based on columns
-  // We want an array of objects
+// A batch whose response fails validation is requested once more before the best attempt is kept
+const MAX_BATCH_ATTEMPTS = 2;
+
+/**
+ * Calls the model until its response passes validation or attempts run out, and returns the
+ * best attempt. Malformed responses are re-requested with a note saying what was wrong. API errors
+ * propagate, except on a re-request after a usable attempt, which is then kept. Throws when no
+ * attempt produced any rows.
+ */
+const requestValidated = async <T extends Pick<ValidatedBatch, 'report' | 'problems'>>(
+  request: (retryNote: string) => Promise<string>,
+  validate: (value: unknown) => T,
+  label: string,
+  signal?: AbortSignal
+): Promise<T> => {
+  let best: T | null = null;
+  let retryNote = '';
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= MAX_BATCH_ATTEMPTS; attempt++) {
+    let text: string;
+    try {
+      text = await retryWithBackoff(() => request(retryNote), signal);
+    } catch (error) {
+      if (!best || signal?.aborted || isAbortError(error)) throw error;
+      console.warn(`${label}: re-request failed, keeping the previous attempt.`, error);
+      break;
+    }
+    let problems: string[];
+    try {
+      const { value, repaired } = parseModelJson(text || '');
+      const result = validate(value);
+      if (repaired) result.report.repairedResponses++;
+      result.report.retriedBatches = attempt > 1 ? 1 : 0;
+      if (isBetterBatch(result, best)) best = result;
+      problems = result.problems;
+    } catch (error: any) {
+      lastError = error;
+      problems = [error?.message || 'unreadable response'];
+    }
+    if (problems.length === 0) break;
+    console.warn(`${label}: response rejected (${problems.join('; ')}). Attempt ${attempt} of ${MAX_BATCH_ATTEMPTS}.`);
+    retryNote = `\nYour previous answer was rejected: ${problems.join('; ')}. Return valid JSON that follows the schema exactly.`;
+  }
+
+  if (!best) throw lastError;
+  if (best.report.rowsReceived === 0 && best.problems.length > 0) {
+    throw new Error(`${label}: the AI returned no usable rows (${best.problems.join('; ')})`);
+  }
+  return best;
+};
+
+// Construct a dynamic schema based on columns: an array of row objects.
+// Allowed values and patterns are always emitted; numeric bounds only when `enforceBounds` is set.
+const buildResponseSchema = (template: TableTemplate, enforceBounds: boolean): Schema => {
   const properties: Record<string, Schema> = {};
   const requiredFields: string[] = [];
 
   template.columns.forEach(col => {
-    properties[col.key] = {
+    const rule = col.validation;
+    const property: Schema = {
       type: col.type === 'number' ? Type.NUMBER : Type.STRING,
-      nullable: true,
-      description: `Column: ${col.label} ${col.subLabel ? `(${col.subLabel})` : ''}. Group: ${col.group || 'None'}`
+      nullable: !rule?.required,
+      description: `Column: ${describeColumn(col)}`
     };
+
+    if (rule && col.type === 'number' && enforceBounds) {
+      // The schema has no strict bounds, so "> 1" becomes a minimum one reading step above 1
+      const decimals = getRuleDecimals(rule);
+      const step = Math.pow(10, -decimals);
+      if (rule.min !== undefined) property.minimum = rule.exclusiveMin ? Number((rule.min + step).toFixed(decimals)) : rule.min;
+      if (rule.max !== undefined) property.maximum = rule.exclusiveMax ? Number((rule.max - step).toFixed(decimals)) : rule.max;
+    }
+    if (col.type !== 'number') {
+      // Select/status options (or a rule's allowed values) become a constrained choice
+      const options = getColumnOptions(col);
+      if (options.length > 0) {
+        property.enum = options.map(o => o.value);
+      }
+      if (rule?.pattern) {
+        property.pattern = rule.pattern;
+      }
+    }
+
+    properties[col.key] = property;
     requiredFields.push(col.key);
   });
 
-  const responseSchema: Schema = {
+  return {
     type: Type.ARRAY,
     items: {
       type: Type.OBJECT,
       properties: properties,
-      required: requiredFields, 
+      required: requiredFields,
     }
   };
+};
 
+export const generateTableData = async (
+  template: TableTemplate,
+  config: SimulationConfig,
+  currentRows: RowData[],
+  onProgress?: (message: string) => void,
+  options: GenerationOptions = {}
+): Promise<RowData[]> => {
   const targetDateStr = config.targetMonth || new Date().toISOString().slice(0, 7);
+  // Seeded runs record every response and reuse it, so the same settings give the same sheet
+  const seeded = config.seed !== undefined;
+  const provider = seeded
+    ? withResponseCache(getProvider(), getCacheScope(template, config), { replay: config.replay, label: `${template.name} ${targetDateStr}` })
+    : getProvider();
+  const random = seeded ? createSeededRandom(deriveSeed(config.seed!, template.id, targetDateStr)) : Math.random;
+
+  // Row count and axis cells (day, date, week, asset) are computed locally; the model fills the rest
+  const skeleton = buildRowSkeleton(template, targetDateStr);
+  const fillColumns = template.columns.filter(c => !skeleton.fixedKeys.includes(c.key));
+  const fillKeys = fillColumns.map(c => c.key);
+  // Partial scopes keep what is already in the sheet and only generate the target rows
+  const scope = options.scope || { kind: 'all' };
+  const plan = planFill(skeleton, currentRows, fillKeys, scope);
+
+  // Only enforce numeric bounds in the schema for compliant runs; other modes need room for anomalies
+  const responseSchema = buildResponseSchema({ ...template, columns: fillColumns }, config.mode === 'compliant');
 
   // Split generation into batches to avoid Timeouts/Rate Limits on large outputs
   // INCREASED BATCH SIZE: 12 -> 40 to fit most monthly logs (31 rows) in a single request.
   // This drastically reduces the number of API calls, avoiding RPM limits.
   const BATCH_SIZE = 40; 
-  const totalRows = template.defaultRows;
+  const totalRows = plan.targets.length;
   const batches = Math.ceil(totalRows / BATCH_SIZE);
-  let allRows: RowData[] = [];
+  let allRows: RowData[] = []; // Generated rows, one per completed target
+  let quality = createQualityReport();
+  // A full run returns only finished rows; partial scopes return the whole sheet
+  const currentSheet = () => {
+    const sheet = applyFill(plan, allRows);
+    return scope.kind === 'all' ? sheet.slice(0, allRows.length) : sheet;
+  };
+
+  // Range runs pass the end of the previous month so readings carry over instead of resetting
+  const continuityRows = options.previousRows?.slice(-CONTINUITY_ROWS) || [];
+  const continuityRules = continuityRows.length > 0 ? `
+      Continuity With Previous Month:
+      - The previous month's log ended with these rows: ${JSON.stringify(continuityRows)}
+      - Start this month's readings close to those final values and let them drift gradually.
+      - Slow-changing parameters (e.g. Cyanuric Acid, stabiliser levels) must not reset; carry their trend forward.
+      - Do not repeat an unresolved anomaly unless the corrective action implies it persists.
+  ` : '';
+
+  // Person columns may only name rostered staff who were on shift; enforced again after each batch
+  const roster = options.roster || [];
+  const personKeys = template.columns.filter(isPersonColumn).map(c => c.key);
+  const rosterRules = roster.length > 0 && personKeys.length > 0 ? `
+      Staff Roster:
+      - Person columns (${personKeys.join(', ')}) must contain only these staff, written exactly as listed:
+        ${describeRoster(roster).join('\n        ')}
+      - Choose someone who works on the row's weekday and whose shift covers the check times.
+  ` : '';
+
+  // Scripted incidents are written into the rows again after each batch, so the prompt only keeps the rest consistent
+  const incidents = getIncidentsForMonth(options.incidents || [], targetDateStr);
+  const scenarios = options.scenarios || ANOMALY_SCENARIOS;
+  const incidentRules = incidents.length > 0 ? `
+      Scripted Incidents (these happened; the log must show them):
+        ${describeIncidents(template, incidents).join('\n        ')}
+      - Write the incident and its corrective action in the 'corrective_action' or 'observation' column of that day.
+      - Readings on the following days must show the recovery, not an instant return to normal.
+  ` : '';
 
   for (let i = 0; i < batches; i++) {
-    const rowsRemaining = totalRows - allRows.length;
-    const currentBatchSize = Math.min(BATCH_SIZE, rowsRemaining);
-    const startDay = (i * BATCH_SIZE) + 1;
+    const start = i * BATCH_SIZE;
+    const batchTargets = plan.targets.slice(start, start + BATCH_SIZE);
+    const batchLocked = plan.locked.slice(start, start + BATCH_SIZE);
+    const currentBatchSize = batchTargets.length;
+    // One line per row so the model sees the weekday of every day it fills and any values already logged
+    const rowList = batchTargets
+      .map((rowIndex, r) => `${rowIndex + 1}. ${JSON.stringify(batchLocked[r])}${plan.hints[start + r] ? ` (${plan.hints[start + r]})` : ''}`)
+      .join('\n      ');
+    const contextRows = scope.kind === 'all' ? [] : getContextRows(plan, batchTargets, fillKeys);
+    const existingRules = scope.kind === 'all' ? '' : `
+      Existing Values (entered by staff; treat as fact):
+      - Cells given in the row list below (other than key columns) are already recorded. Return them unchanged and fill only the missing cells.
+      - Make new values consistent with the recorded readings of the same row and with these nearby rows: ${JSON.stringify(contextRows)}
+      - Do not introduce a sudden jump between a recorded reading and a generated one.
+  `;
 
     if (onProgress) {
         onProgress(`Generating batch ${i + 1} of ${batches}...`);
     }
 
-    // Pause between batches if we have multiple to be kind to the rate limiter
-    if (i > 0) {
-        await wait(2000); 
-    }
-
     const systemPrompt = `
       Role: Intelligent Data Compliance & Simulation Engine.
       Objective: Populate a tabular structure with realistic, context-aware, and compliant data based on specific constraints.
       
       Context: ${template.context}
+
+      Column Rules (key: description):
+      ${template.columns.map(c => `- ${c.key}: ${describeColumn(c)}`).join('\n      ')}
       
       Reference - Common Validation Rules Library (Apply these if column semantics match):
       ${JSON.stringify(COMMON_VALIDATION_RULES, null, 2)}
 
       Reference - Anomaly & Correction Scenarios (Use these for generating 'Corrective Action' or 'Notes' when simulation implies a failure):
-      ${JSON.stringify(ANOMALY_SCENARIOS, null, 2)}
+      ${JSON.stringify(scenarios, null, 2)}
       
       Rules & Constraints:
       - Target Timeframe: The data must be generated specifically for ${targetDateStr} (YYYY-MM).
-        - Ensure day numbers correspond to dates starting from index ${startDay} of the month.
-        - Handle leap years correctly if February is selected.
-        - If columns refer to "Weekdays" or "Weekends", match the actual calendar for ${targetDateStr}.
+        - The rows are pre-defined from the calendar; their key columns (${skeleton.fixedKeys.join(', ') || 'none'}) are already filled and must not be returned.
+        - If columns refer to "Weekdays" or "Weekends", match the weekday shown for each row.
+        - A cell listed as null in a row falls outside ${targetDateStr} and must stay null.
       - ${template.aiRules}
       - Simulation Mode: ${config.mode.toUpperCase()}
       - Fill Rate: ${config.fillRate}% of cells should be non-empty (unless logic dictates empty).
@@ -158,118 +329,188 @@ export const generateTableData = async (
       - If an anomaly occurs (Value out of range), the 'corrective_action' or 'observation' column MUST have a relevant technical comment explaining the fix (e.g., "Dosed acid", "Backwashed").
       - Use industry-specific terminology.
       - Do NOT use generic placeholders like "Item 1".
-      
+      ${continuityRules}${existingRules}${rosterRules}${incidentRules}
       Specific Logic:
-      - If Mode is 'compliant', all numbers must be strictly within bounds defined in column labels.
+      - If Mode is 'compliant', every value must satisfy the "Rule" listed for its column.
       - If Mode is 'realistic', allow minor fluctuations, with occasional corrections.
       - If Mode is 'chaos', generate frequent failures.
       
       Task:
-      Generate ${currentBatchSize} rows of data corresponding to the schema provided.
-      This is batch ${i + 1} of ${batches}. Start generating from row/day ${startDay}.
+      Generate exactly ${currentBatchSize} rows of data corresponding to the schema provided, one per row below, in the same order.
+      This is batch ${i + 1} of ${batches}.
+      ${scope.kind !== 'all' || skeleton.fixedKeys.length > 0 || skeleton.hints.length > 0 ? `Rows (fixed cells and calendar day):\n      ${rowList}` : ''}
       Return ONLY the JSON array.
     `;
 
-    try {
-      const response = await retryWithBackoff<GenerateContentResponse>(() => client.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: `Generate batch ${i+1} of data for table: ${template.name}`,
-        config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: "application/json",
-          responseSchema: responseSchema,
-          temperature: config.mode === 'chaos' ? 0.9 : 0.4,
-        }
-      }));
+    // Show each row as soon as its JSON object is complete; the validated batch replaces them afterwards
+    const rowsBefore = allRows;
+    let streamedCount = 0;
+    const streamBatch = (text: string) => {
+      const partial = parsePartialRows(text).slice(0, currentBatchSize);
+      if (partial.length === streamedCount) return;
+      streamedCount = partial.length;
+      const streamed = applyFill(plan, [...rowsBefore, ...validateModelRows(partial, fillColumns).rows]);
+      options.onRows!(scope.kind === 'all' ? streamed.slice(0, rowsBefore.length + partial.length) : streamed);
+    };
 
-      const text = response.text;
-      if (text) {
-          const batchData = JSON.parse(text) as RowData[];
-          allRows = [...allRows, ...batchData];
+    try {
+      // Pause between batches if we have multiple to be kind to the rate limiter
+      if (i > 0 && !config.replay) {
+          await wait(2000, options.signal);
       }
+
+      // Compliant runs treat out-of-range values as broken; other modes generate them on purpose
+      const batch = await requestValidated(
+        (retryNote) => {
+          streamedCount = 0;
+          return provider.generateJson({
+            systemInstruction: systemPrompt,
+            prompt: `Generate batch ${i+1} of data for table: ${template.name}${retryNote}`,
+            responseSchema: responseSchema,
+            temperature: config.mode === 'chaos' ? 0.9 : 0.4,
+            seed: config.seed,
+            onText: options.onRows ? streamBatch : undefined,
+            signal: options.signal,
+          });
+        },
+        (value) => validateModelRows(value, fillColumns, currentBatchSize, config.mode === 'compliant'),
+        `Batch ${i + 1}`,
+        options.signal
+      );
+      // Locked cells supply each row's day for the shift check; applyFill keeps them anyway
+      const staffed = assignRosterNames(template, batch.rows.map((row, r) => ({ ...row, ...batchLocked[r] })), roster, targetDateStr, random);
+      allRows = [...allRows, ...applyIncidents(template, staffed, incidents, targetDateStr)];
+      quality = mergeQualityReports(quality, batch.report);
+      options.onRows?.(currentSheet());
     } catch (error) {
+      if (options.signal?.aborted || isAbortError(error)) {
+        // Completed batches are handed back so the caller can keep them
+        if (allRows.length > 0) options.onQualityReport?.(quality);
+        throw createAbortError(allRows.length > 0 ? currentSheet() : []);
+      }
       console.error(`Error generating batch ${i + 1}:`, error);
       throw error;
     }
   }
 
-  return allRows;
+  options.onQualityReport?.(quality);
+  return currentSheet();
 };
 
 export const fixDataRows = async (
   rows: RowData[],
-  template: TableTemplate
+  template: TableTemplate,
+  options: GenerationOptions = {}
 ): Promise<RowData[]> => {
-  const client = getClient();
-
-  const properties: Record<string, Schema> = {};
-  const requiredFields: string[] = [];
-
-  template.columns.forEach(col => {
-    properties[col.key] = {
-      type: col.type === 'number' ? Type.NUMBER : Type.STRING,
-      nullable: true,
-      description: `Column: ${col.label} ${col.subLabel ? `(${col.subLabel})` : ''}. Group: ${col.group || 'None'}`
-    };
-    requiredFields.push(col.key);
-  });
+  const provider = getProvider();
 
-  const responseSchema: Schema = {
-    type: Type.ARRAY,
-    items: {
-      type: Type.OBJECT,
-      properties: properties,
-      required: requiredFields, 
-    }
-  };
+  const responseSchema = buildResponseSchema(template, true);
 
   const systemPrompt = `
     Role: Intelligent Data Compliance Officer.
     Objective: Review the provided data rows and FIX any anomalies, errors, or missing values to ensure strict compliance.
     
     Context: ${template.context}
-    Columns Definitions: ${JSON.stringify(template.columns.map(c => `${c.label} (${c.subLabel || ''})`))}
+    Column Rules (key: description):
+    ${template.columns.map(c => `- ${c.key}: ${describeColumn(c)}`).join('\n    ')}
 
     Rules:
-    1. Identify values that are out of compliance (e.g., pH outside 7.2-7.8, Chlorine outside 1.0-3.0).
-    2. CORRECT these values to be within the safe/compliant range.
+    1. Identify values that violate the "Rule" of their column (e.g., a pH column with rule "7.2 to 7.8" reading 8.1).
+    2. CORRECT these values so they satisfy the column rule. Bounds marked ">" or "<" are strict.
     3. If 'corrective_action' or similar column exists, update it to say "Auto-corrected by system" or clear it if the issue is resolved.
     4. Fill any missing values that should be present.
     5. Return the corrected rows in the exact same JSON structure.
   `;
 
   try {
-    const response = await retryWithBackoff<GenerateContentResponse>(() => client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: JSON.stringify(rows),
-      config: {
+    const result = await requestValidated(
+      (retryNote) => provider.generateJson({
         systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
+        prompt: JSON.stringify(rows) + retryNote,
         responseSchema: responseSchema,
         temperature: 0.2, // Low temperature for deterministic corrections
-      }
-    }));
-
-    const text = response.text;
-    if (text) {
-        return JSON.parse(text) as RowData[];
-    }
-    return rows; // Return original if parsing fails
+        signal: options.signal,
+      }),
+      (value) => validateModelRows(value, template.columns, rows.length, true),
+      'AutoFix',
+      options.signal
+    );
+    options.onQualityReport?.(result.report);
+    return result.rows;
   } catch (error) {
     console.error("Error fixing rows:", error);
     throw error;
   }
 };
 
+// The extracted structure must have columns before its rows can be checked
+const validateAnalysis = (value: unknown): ValidatedBatch & { template: Partial<TableTemplate> } => {
+  const raw = (typeof value === 'object' && value !== null ? value : {}) as { template?: Partial<TableTemplate>; rows?: unknown };
+  const template = typeof raw.template === 'object' && raw.template !== null ? raw.template : {};
+  const columns: Column[] = sanitizeExtractedColumns(template.columns);
+  const batch = validateModelRows(raw.rows ?? [], columns);
+  if (columns.length === 0) {
+    batch.problems.unshift('no table columns were extracted');
+    batch.report.rowsReceived = 0;
+  }
+  return { ...batch, template: { ...template, columns } };
+};
+
+// True when the stored cell says what was written: same text or number ("7.40", "7,4"), or the option it labels
+const isWrittenAs = (stored: RowData[string], written: unknown, col: Column): boolean => {
+  if (isEmptyValue(stored)) return false;
+  const text = String(written).trim();
+  if (col.type === 'number') return text !== '' && Number(text.replace(',', '.')) === stored;
+  return text === stored || findOption(col, text)?.value === stored;
+};
+
+/**
+ * Transcriptions keep blank and unreadable cells: only a missing table is re-requested, so a
+ * retry never pushes the model to fill gaps. Illegible cells are emptied, and written values
+ * that had to be cleared or changed to fit their column type (e.g. "7.4/7.6" -> 7.4) are flagged.
+ */
+const validateExtraction = (value: unknown): ValidatedBatch & { template: Partial<TableTemplate>; flags: ConfidenceFlag[] } => {
+  const analysis = validateAnalysis(value);
+  const columns = analysis.template.columns || [];
+  const raw = (typeof value === 'object' && value !== null ? value : {}) as { rows?: unknown; flags?: unknown };
+  const rawRows = Array.isArray(raw.rows) ? raw.rows as Record<string, unknown>[] : [];
+  const flags = sanitizeConfidenceFlags(raw.flags, columns, analysis.rows.length);
+  const flagged = new Set(flags.map(flag => `${flag.row}:${flag.key}`));
+
+  flags.filter(flag => flag.confidence === 'illegible').forEach(flag => { analysis.rows[flag.row][flag.key] = null; });
+  analysis.rows.forEach((row, r) => columns.forEach(col => {
+    const written = rawRows[r]?.[col.key];
+    if (isEmptyValue(written) || flagged.has(`${r}:${col.key}`) || isWrittenAs(row[col.key], written, col)) return;
+    flags.push({ row: r, key: col.key, confidence: 'low', note: `Read as "${typeof written === 'object' ? JSON.stringify(written) : written}"` });
+  }));
+
+  const problems = columns.length === 0 ? analysis.problems : analysis.rows.length === 0 ? ['no rows were transcribed'] : [];
+  return { ...analysis, problems, flags };
+};
+
+const EXTRACTED_TEMPLATE_FORMAT = `"template": { 
+        "name": string, 
+        "description": string,
+        "context": string,
+        "columns": Array<{ "key": string, "label": string, "type": "text"|"number"|"date"|"time"|"select"|"status", "subLabel"?: string, "options"?: Array<{ "value": string, "label"?: string, "severity"?: "ok"|"warning"|"critical" }>, "validation"?: { "min"?: number, "max"?: number, "exclusiveMin"?: boolean, "exclusiveMax"?: boolean, "allowedValues"?: string[], "required"?: boolean } }> 
+      }`;
+
+/**
+ * Reads a scanned or photographed log sheet. In 'generate' mode the table structure is kept and
+ * new rows are simulated; in 'extract' mode the rows are transcribed as written, with uncertain
+ * and illegible cells listed in `flags` and nothing invented.
+ */
 export const analyzeFileAndGenerate = async (
   fileBase64: string,
   mimeType: string,
-  config: SimulationConfig
-): Promise<{ template: Partial<TableTemplate>, rows: RowData[] }> => {
-   const client = getClient();
+  config: SimulationConfig,
+  options: AnalysisOptions = {}
+): Promise<{ template: Partial<TableTemplate>, rows: RowData[], flags: ConfidenceFlag[] }> => {
+   const provider = getProvider();
    const targetDateStr = config.targetMonth || new Date().toISOString().slice(0, 7);
+   const extract = options.mode === 'extract';
 
-   const systemPrompt = `
+   const generatePrompt = `
     You are an expert OCR and Data Simulation agent.
     1. Analyze the file provided (image or PDF).
     2. Extract the column headers and infer the data types and validation rules (min/max).
@@ -281,41 +522,50 @@ export const analyzeFileAndGenerate = async (
     ${JSON.stringify(COMMON_VALIDATION_RULES, null, 2)}
 
     Reference - Anomaly & Correction Scenarios (Use these if applicable to inferred context):
-    ${JSON.stringify(ANOMALY_SCENARIOS, null, 2)}
+    ${JSON.stringify(options.scenarios || ANOMALY_SCENARIOS, null, 2)}
     
     Output Format:
     Return a single valid JSON object with exactly these two keys:
-    - "template": { 
-        "name": string, 
-        "description": string,
-        "context": string,
-        "columns": Array<{ "key": string, "label": string, "type": "text"|"number"|"date"|"select", "subLabel"?: string }> 
-      }
+    - ${EXTRACTED_TEMPLATE_FORMAT}
+    - "rows": Array of objects, where keys match the 'key' fields defined in template.columns.
+   `;
+
+   const extractPrompt = `
+    You are an expert OCR agent digitising paper maintenance logs, including handwriting.
+    1. Analyze the file provided (image or PDF).
+    2. Extract the column headers and infer the data types and validation rules (min/max).
+    3. Transcribe every filled row exactly as written, in order. This is a legal record:
+       - NEVER invent, complete, correct or smooth a value. Out-of-range readings stay as written.
+       - A blank cell is null.
+       - A cell you cannot read is null and is listed in "flags" with confidence "illegible".
+       - A value you can read but are not sure of (smudged digits, ambiguous letters, crossed out and rewritten) is returned as your best reading and listed in "flags" with confidence "low".
+    4. Do not add rows for days that are not on the sheet.
+
+    Reference - Common Validation Rules Library (Use only to infer column rules, never to change values):
+    ${JSON.stringify(COMMON_VALIDATION_RULES, null, 2)}
+
+    Output Format:
+    Return a single valid JSON object with exactly these three keys:
+    - ${EXTRACTED_TEMPLATE_FORMAT}
     - "rows": Array of objects, where keys match the 'key' fields defined in template.columns.
+    - "flags": Array<{ "row": number (0-based index into rows), "key": string, "confidence": "low"|"illegible", "note"?: string (why it is uncertain) }>
    `;
    
    try {
-    const response = await retryWithBackoff<GenerateContentResponse>(() => client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: [
-        {
-           inlineData: {
-              mimeType: mimeType,
-              data: fileBase64
-           }
-        },
-        { text: "Analyze this table and generate compliant data." }
-      ],
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
-      }
-    }));
-
-    const text = response.text;
-    if(!text) throw new Error("No response from AI");
-    
-    return JSON.parse(text);
+    const result = await requestValidated(
+      (retryNote) => provider.generateJson({
+        systemInstruction: extract ? extractPrompt : generatePrompt,
+        prompt: (extract ? "Transcribe this table exactly as written." : "Analyze this table and generate compliant data.") + retryNote,
+        temperature: extract ? 0 : undefined,
+        file: { mimeType: mimeType, data: fileBase64 },
+        signal: options.signal,
+      }),
+      (value) => extract ? validateExtraction(value) : { ...validateAnalysis(value), flags: [] },
+      extract ? 'File transcription' : 'File analysis',
+      options.signal
+    );
+    options.onQualityReport?.(result.report);
+    return { template: result.template, rows: result.rows, flags: result.flags };
 
    } catch (error) {
     console.error("File Analysis Error:", JSON.stringify(error, null, 2));
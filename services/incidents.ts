@@ -0,0 +1,94 @@
+import { TableTemplate, Column, RowData, ScriptedIncident } from '../types';
+import { getColumnOptions, isEmptyValue } from './validation';
+import { getRowDate } from './roster';
+import { getRowAxis } from './rowSkeleton';
+
+// Scripted incidents: fixed events on given days that generated sheets must contain, followed
+// by readings that recover gradually. Applied after generation so both engines honour them.
+
+const NOTE_KEY = /corrective|observation|notes?$|comment/;
+
+// Corrective action / observation column that incident and anomaly notes are written to
+export const findNoteColumn = (template: TableTemplate): Column | undefined =>
+  template.columns.find(c => NOTE_KEY.test(c.key));
+
+const countDecimals = (n: number) => {
+  const str = String(n);
+  return str.includes('.') ? str.split('.')[1].length : 0;
+};
+
+const appendNote = (existing: RowData[string], note: string): string => {
+  const text = isEmptyValue(existing) ? '' : String(existing);
+  return text.includes(note) ? text : [text, note].filter(Boolean).join(' ');
+};
+
+export const getIncidentsForMonth = (incidents: ScriptedIncident[], targetMonth: string): ScriptedIncident[] =>
+  incidents.filter(incident => !incident.month || incident.month === targetMonth);
+
+// Incidents need a calendar day per row: sheets with a day axis or a date column
+export const supportsIncidents = (template: TableTemplate): boolean =>
+  getRowAxis(template).kind === 'days' || template.columns.some(c => c.type === 'date');
+
+/**
+ * Writes incident readings and notes into the rows of their day. On follow-up days each scripted
+ * numeric reading moves from the incident value back to the generated one in equal steps.
+ */
+export const applyIncidents = (
+  template: TableTemplate,
+  rows: RowData[],
+  incidents: ScriptedIncident[],
+  targetMonth: string
+): RowData[] => {
+  const active = getIncidentsForMonth(incidents, targetMonth);
+  if (active.length === 0) return rows;
+  const noteColumn = findNoteColumn(template);
+  const columnsByKey = new Map(template.columns.map(c => [c.key, c]));
+
+  return rows.map(row => {
+    const date = getRowDate(template, row, targetMonth);
+    if (!date || date.toISOString().slice(0, 7) !== targetMonth) return row;
+    const day = date.getUTCDate();
+    const next = { ...row };
+
+    active.forEach(incident => {
+      const offset = day - incident.day;
+      if (offset < 0 || offset > incident.followUpDays) return;
+
+      Object.entries(incident.readings).forEach(([key, value]) => {
+        if (!columnsByKey.has(key)) return;
+        if (offset === 0) {
+          next[key] = value;
+          return;
+        }
+        const forced = Number(value);
+        const generated = Number(next[key]);
+        if (isEmptyValue(next[key]) || !Number.isFinite(forced) || !Number.isFinite(generated)) return;
+        const weight = 1 - offset / (incident.followUpDays + 1);
+        const decimals = Math.max(countDecimals(forced), countDecimals(generated));
+        next[key] = Number((generated + (forced - generated) * weight).toFixed(decimals));
+      });
+
+      if (noteColumn) {
+        const note = offset === 0
+          ? [incident.description, incident.correctiveAction].filter(Boolean).join('. ')
+          : incident.followUpNote;
+        if (note) next[noteColumn.key] = appendNote(next[noteColumn.key], note.trim());
+      }
+    });
+    return next;
+  });
+};
+
+// Prompt lines, e.g. "Day 12: Fecal accident. Corrective action: ... Readings: fcl_9am=10 ..."
+export const describeIncidents = (template: TableTemplate, incidents: ScriptedIncident[]): string[] =>
+  incidents.map(incident => {
+    const readings = Object.entries(incident.readings).map(([key, value]) => {
+      const col = template.columns.find(c => c.key === key);
+      const option = col ? getColumnOptions(col).find(o => o.value === value) : undefined;
+      return `${key}=${option?.label ? `${value} (${option.label})` : value}`;
+    });
+    const followUp = incident.followUpDays > 0
+      ? ` The next ${incident.followUpDays} day(s) recover gradually to normal readings${incident.followUpNote ? `; note: "${incident.followUpNote}"` : ''}.`
+      : '';
+    return `Day ${incident.day}: ${incident.description}. Corrective action: ${incident.correctiveAction || 'none'}.${readings.length > 0 ? ` Readings: ${readings.join(', ')}.` : ''}${followUp}`;
+  });
@@ -0,0 +1,67 @@
+import { Schema } from "@google/genai";
+import { LlmSettings } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiProvider';
+
+export interface InlineFile {
+  mimeType: string;
+  data: string; // Base64 without the data URL prefix
+}
+
+export interface JsonRequest {
+  systemInstruction: string;
+  prompt: string;
+  responseSchema?: Schema; // Omit to accept any JSON
+  temperature?: number;
+  seed?: number; // Asks the backend for repeatable sampling where supported
+  file?: InlineFile;
+  onText?: (textSoFar: string) => void; // When set, the response is streamed and reported as it arrives
+  signal?: AbortSignal;
+}
+
+// A backend able to answer a prompt with raw JSON text
+export interface LlmProvider {
+  name: string;
+  generateJson: (request: JsonRequest) => Promise<string>;
+}
+
+const SETTINGS_KEY = 'llmSettings';
+
+export const DEFAULT_MODELS: Record<LlmSettings['provider'], string> = {
+  'gemini': 'gemini-2.5-flash',
+  'openai-compatible': 'local-model',
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS['gemini'],
+  baseUrl: 'http://localhost:8000/v1',
+  apiKey: '',
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  if (typeof window === 'undefined') return DEFAULT_LLM_SETTINGS;
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(saved) } : DEFAULT_LLM_SETTINGS;
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const createProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(settings);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+// Resolve the provider currently chosen in settings
+export const getProvider = (): LlmProvider => createProvider(loadLlmSettings());
@@ -0,0 +1,343 @@
+import { TableTemplate, SimulationConfig, RowData, Column, GenerationOptions, StaffMember, ScenarioLibrary } from '../types';
+import { ANOMALY_SCENARIOS, DEFAULT_ROSTER } from '../constants';
+import { isNumberInRange, getColumnOptions, findOption, checkRule, isEmptyValue, getRuleDecimals } from './validation';
+import { buildRowSkeleton, getDaysInMonth, getRowAxis } from './rowSkeleton';
+import { planFill, applyFill } from './fillScope';
+import { isPersonColumn, assignRosterNames } from './roster';
+import { findNoteColumn, applyIncidents } from './incidents';
+import { createSeededRandom, deriveSeed } from './seededRandom';
+
+// Offline, rule-based alternative to the Gemini generator.
+// Produces rows purely from column types, validation rules and the simulation config.
+
+const ASSET_KEY = /(^|_)(id|loc|location|number)$/;
+// Stabiliser-type readings change over weeks, not days
+const SLOW_DRIFT_SUBJECT = /cyanuric|stabili[sz]er|\btds\b|salt/;
+const WEEKDAY_LABELS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+type Random = () => number;
+
+const randomBetween = (min: number, max: number, random: Random) => min + random() * (max - min);
+const pick = <T>(items: T[], random: Random): T => items[Math.floor(random() * items.length)];
+
+const hasNumericRule = (col: Column) =>
+  col.type === 'number' && col.validation !== undefined &&
+  (col.validation.min !== undefined || col.validation.max !== undefined);
+
+// A reading can only go out of range if it has an upper bound or a positive lower bound
+const canBeAnomalous = (col: Column) =>
+  hasNumericRule(col) && (col.validation!.max !== undefined || (col.validation!.min as number) > 0);
+
+// Compliant sampling window for a numeric column, inset slightly from strict bounds
+const getCompliantRange = (col: Column): { low: number; high: number; decimals: number } => {
+  const rule = col.validation || {};
+  const min = rule.min;
+  const max = rule.max;
+  let low = min ?? (max !== undefined ? Math.min(0, max) : 0);
+  let high = max ?? (min !== undefined ? Math.max(min * 2, min + 2) : 100);
+
+  const decimals = getRuleDecimals(rule);
+  const step = Math.pow(10, -decimals);
+  if (rule.exclusiveMin) low += step;
+  if (rule.exclusiveMax) high -= step;
+
+  return { low, high, decimals };
+};
+
+const roundTo = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+const sampleCompliant = (col: Column, previous: number | undefined, random: Random): number => {
+  const { low, high, decimals } = getCompliantRange(col);
+  const span = high - low;
+  const drift = SLOW_DRIFT_SUBJECT.test(`${col.key} ${col.label}`.toLowerCase()) ? 0.03 : 0.15;
+  // Drift from the previous reading so consecutive rows look like a real log
+  const value = previous !== undefined
+    ? previous + randomBetween(-drift, drift, random) * span
+    : randomBetween(low + span * 0.2, high - span * 0.2, random);
+  return roundTo(Math.min(high, Math.max(low, value)), decimals);
+};
+
+const sampleAnomaly = (col: Column, random: Random): { value: number; direction: 'high' | 'low' } => {
+  const rule = col.validation || {};
+  const { low, high, decimals } = getCompliantRange(col);
+  const span = Math.max(high - low, 1);
+  const canGoLow = rule.min !== undefined && rule.min > 0;
+  const canGoHigh = rule.max !== undefined;
+  const direction: 'high' | 'low' = canGoHigh && (!canGoLow || random() < 0.5) ? 'high' : 'low';
+
+  let value = direction === 'high'
+    ? (rule.max as number) + randomBetween(0.05, 0.4, random) * span
+    : (rule.min as number) - randomBetween(0.05, 0.4, random) * Math.min(span, rule.min as number);
+  value = Math.max(0, roundTo(value, decimals));
+
+  // Rounding can land back on a strict bound; nudge it clearly outside
+  if (isNumberInRange(value, rule)) {
+    const step = Math.pow(10, -decimals);
+    value = roundTo(direction === 'high' ? (rule.max as number) + step : Math.max(0, (rule.min as number) - step), decimals);
+  }
+  return { value, direction };
+};
+
+// Normalise a column to searchable words so "CL" and "Free Cl" match "Chlorine" scenarios
+const describeSubject = (col: Column) =>
+  `${col.label} ${col.subLabel || ''} ${col.group || ''}`.toLowerCase().replace(/\bcl\b/g, 'chlorine');
+
+// Find the scenario whose condition best matches a column and direction
+const findCorrectiveAction = (col: Column, direction: 'high' | 'low', scenarios: ScenarioLibrary): string => {
+  const subject = describeSubject(col);
+  let bestAction = '';
+  let bestScore = 0;
+
+  for (const domain of Object.values(scenarios)) {
+    for (const scenario of Object.values(domain)) {
+      const match = scenario.condition.match(/^(.+?)\s*([<>])/);
+      if (!match) continue;
+      const scenarioSubject = match[1].trim().toLowerCase();
+      const scenarioDirection = match[2] === '>' ? 'high' : 'low';
+      if (scenarioDirection !== direction || scenarioSubject.length <= bestScore) continue;
+      const escaped = scenarioSubject.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      if (new RegExp(`\\b${escaped}\\b`).test(subject)) {
+        bestAction = scenario.corrective_action;
+        bestScore = scenarioSubject.length;
+      }
+    }
+  }
+
+  return bestAction || `${col.label} reading ${direction}; re-tested and supervisor notified.`;
+};
+
+// The first option flagged 'ok' (or simply the first option) is the everyday reading
+const getNormalOption = (col: Column): string => {
+  const options = getColumnOptions(col);
+  return (options.find(o => o.severity === 'ok') || options[0]).value;
+};
+
+// Start each random walk from the previous month's last compliant reading (range runs)
+const getCarriedOverValues = (template: TableTemplate, previousRows?: RowData[]): Record<string, number> => {
+  const values: Record<string, number> = {};
+  if (!previousRows || previousRows.length === 0) return values;
+  template.columns.filter(hasNumericRule).forEach(col => {
+    for (let i = previousRows.length - 1; i >= 0; i--) {
+      const value = previousRows[i][col.key];
+      if (typeof value === 'number' && isNumberInRange(value, col.validation!)) {
+        values[col.key] = value;
+        break;
+      }
+    }
+  });
+  return values;
+};
+
+const formatDate = (targetMonth: string, day: number) => `${targetMonth}-${String(day).padStart(2, '0')}`;
+
+const randomTime = (random: Random) => {
+  const hour = Math.floor(randomBetween(7, 20, random));
+  const minute = pick([0, 15, 30, 45], random);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+const generateTextValue = (col: Column, rowIndex: number, day: number, targetMonth: string, isFirstColumn: boolean, roster: StaffMember[], random: Random): string => {
+  const label = col.label.toLowerCase();
+  const shortLabel = col.label.split('/')[0].trim();
+  if (col.key === 'week') return `Week ${rowIndex + 1}`;
+  if (col.key === 'date') return `${day}/${Number(targetMonth.split('-')[1])}`;
+  // Any rostered name; assignRosterNames swaps in someone on shift for the row
+  if (isPersonColumn(col)) return pick(roster, random).name;
+  if (WEEKDAY_LABELS.includes(label)) return '✓';
+  // Identifier-like leading columns (e.g. "Pool Name / Location") get a numbered entry
+  if (isFirstColumn) return `${shortLabel} ${rowIndex + 1}`;
+  if (ASSET_KEY.test(col.key)) return `${shortLabel} ${(rowIndex % 4) + 1}`;
+  return '✓';
+};
+
+export const generateLocalTableData = async (
+  template: TableTemplate,
+  config: SimulationConfig,
+  currentRows: RowData[],
+  onProgress?: (message: string) => void,
+  options: GenerationOptions = {}
+): Promise<RowData[]> => {
+  const targetMonth = config.targetMonth || new Date().toISOString().slice(0, 7);
+  const daysInMonth = getDaysInMonth(targetMonth);
+  // Row count and axis cells (day, date, week, asset) come from the calendar skeleton
+  const skeleton = buildRowSkeleton(template, targetMonth);
+  const isDaily = getRowAxis(template).kind === 'days';
+  // Partial scopes generate a full sheet and take only the target rows; kept cells win
+  const plan = planFill(skeleton, currentRows, template.columns.filter(c => !skeleton.fixedKeys.includes(c.key)).map(c => c.key), options.scope);
+  const totalRows = Math.max(skeleton.rows.length, plan.rows.length);
+
+  const anomalyRate =
+    config.mode === 'compliant' ? 0 :
+    config.mode === 'chaos' ? Math.min(100, config.anomalyChance * 3 + 20) :
+    config.anomalyChance;
+
+  const anomalyCandidates = template.columns.filter(c => canBeAnomalous(c) && !skeleton.fixedKeys.includes(c.key));
+  const noteColumn = findNoteColumn(template);
+  const previousValues = getCarriedOverValues(template, options.previousRows);
+  const roster = options.roster && options.roster.length > 0 ? options.roster : DEFAULT_ROSTER;
+  const scenarios = options.scenarios || ANOMALY_SCENARIOS;
+  // Seeded runs are reproducible; each month of a range gets its own stream
+  const random = config.seed !== undefined ? createSeededRandom(deriveSeed(config.seed, template.id, targetMonth)) : Math.random;
+  const rows: RowData[] = [];
+
+  if (onProgress) {
+    onProgress(`Generating ${plan.targets.length} rows offline...`);
+  }
+
+  for (let i = 0; i < totalRows; i++) {
+    const row: RowData = {};
+    const fixed = skeleton.rows[i] || {};
+    const day = Math.min(daysInMonth, isDaily ? i + 1 : Math.floor((i * daysInMonth) / totalRows) + 1);
+    const anomalyColumn = anomalyCandidates.length > 0 && random() * 100 < anomalyRate
+      ? pick(anomalyCandidates, random)
+      : undefined;
+    const notes: string[] = [];
+
+    template.columns.forEach((col, colIndex) => {
+      if (col.key in fixed) {
+        row[col.key] = fixed[col.key];
+        return;
+      }
+      if (col === noteColumn) return;
+
+      // Required cells are always filled; everything else respects the fill rate
+      const isRequired = col.validation?.required;
+      if (!isRequired && col !== anomalyColumn && random() * 100 >= config.fillRate) {
+        row[col.key] = null;
+        return;
+      }
+
+      if (col === anomalyColumn) {
+        const { value, direction } = sampleAnomaly(col, random);
+        row[col.key] = value;
+        notes.push(findCorrectiveAction(col, direction, scenarios));
+        return;
+      }
+
+      switch (col.type) {
+        case 'number':
+          if (hasNumericRule(col)) {
+            const value = sampleCompliant(col, previousValues[col.key], random);
+            previousValues[col.key] = value;
+            row[col.key] = value;
+          } else {
+            row[col.key] = Math.round(randomBetween(1, 100, random));
+          }
+          break;
+        case 'date':
+          row[col.key] = formatDate(targetMonth, day);
+          break;
+        case 'time':
+          row[col.key] = randomTime(random);
+          break;
+        default:
+          row[col.key] = getColumnOptions(col).length > 0
+            ? getNormalOption(col)
+            : generateTextValue(col, i, day, targetMonth, colIndex === 0, roster, random);
+      }
+    });
+
+    if (noteColumn) {
+      row[noteColumn.key] = notes.length > 0 ? notes.join(' ') : null;
+    }
+
+    rows.push(row);
+  }
+
+  const staffedRows = assignRosterNames(template, rows, roster, targetMonth, random);
+  // Scripted incidents override the random walk on their days; kept cells still win in applyFill
+  const scriptedRows = applyIncidents(template, staffedRows, options.incidents || [], targetMonth);
+  return applyFill(plan, plan.targets.map(target => scriptedRows[target]));
+};
+
+// Moves an out-of-range reading just inside the nearest bound, as a re-test after dosing would
+const pullIntoRange = (col: Column, value: number): { value: number; direction: 'high' | 'low' } => {
+  const { low, high, decimals } = getCompliantRange(col);
+  const inset = (high - low) * 0.1;
+  const direction: 'high' | 'low' = value > high ? 'high' : 'low';
+  const target = direction === 'high' ? high - inset : low + inset;
+  // Rounding must not push an inset value back over a strict bound
+  return { value: Math.min(high, Math.max(low, roundTo(target, decimals))), direction };
+};
+
+// Entries no reading could produce: text in a number column, a value outside the option list
+// or allowed values, or one failing the pattern. Critical options are genuine faults, not entry errors.
+const isInvalidEntry = (col: Column, value: RowData[string]): boolean =>
+  (col.type === 'number' && !Number.isFinite(Number(value))) ||
+  (getColumnOptions(col).length > 0 && !findOption(col, value)) ||
+  (col.validation !== undefined && checkRule(value, col.validation)?.status === 'danger');
+
+// Replacement for an empty or invalid cell: the everyday option, the middle of the compliant
+// range, or else the nearest valid entry in the same column; undefined when there is none
+const resampleCell = (col: Column, rows: RowData[], index: number): RowData[string] | undefined => {
+  if (getColumnOptions(col).length > 0) return getNormalOption(col);
+  if (hasNumericRule(col)) {
+    const { low, high, decimals } = getCompliantRange(col);
+    return roundTo((low + high) / 2, decimals);
+  }
+  for (let offset = 1; offset < rows.length; offset++) {
+    for (const neighbour of [rows[index - offset], rows[index + offset]]) {
+      const value = neighbour?.[col.key];
+      if (value !== undefined && !isEmptyValue(value) && !isInvalidEntry(col, value)) return value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Rule-based alternative to the AI fix. Out-of-range readings are pulled into the compliant
+ * range with the matching scenario's corrective action added to the note column. Invalid entries
+ * (see isInvalidEntry) and critical options are resampled with a note of the correction, and
+ * empty required cells get an everyday value.
+ */
+export const fixLocalDataRows = (
+  rows: RowData[],
+  template: TableTemplate,
+  scenarios: ScenarioLibrary = ANOMALY_SCENARIOS
+): RowData[] => {
+  const noteColumn = findNoteColumn(template);
+  const axis = getRowAxis(template);
+  const axisKey = axis.kind === 'free' ? undefined : axis.column;
+
+  return rows.map((original, index) => {
+    const row: RowData = { ...original };
+    const actions: string[] = [];
+
+    template.columns.forEach(col => {
+      if (col === noteColumn || col.key === axisKey) return;
+      const value = row[col.key];
+
+      if (isEmptyValue(value)) {
+        if (!col.validation?.required) return;
+        const filled = resampleCell(col, rows, index);
+        if (filled !== undefined) row[col.key] = filled;
+        return;
+      }
+
+      const reading = typeof value === 'number' ? value : Number(value);
+      if (hasNumericRule(col) && Number.isFinite(reading) && !isNumberInRange(reading, col.validation!)) {
+        const fixed = pullIntoRange(col, reading);
+        row[col.key] = fixed.value;
+        actions.push(findCorrectiveAction(col, fixed.direction, scenarios));
+        return;
+      }
+
+      // A critical option is a recorded fault: it is resolved, like an out-of-range reading
+      const isFault = findOption(col, value)?.severity === 'critical';
+      if (!isFault && !isInvalidEntry(col, value)) return;
+      const replacement = resampleCell(col, rows, index);
+      if (replacement === undefined) return;
+      row[col.key] = replacement;
+      actions.push(isFault
+        ? `${col.label} "${value}" resolved; re-checked as ${replacement} and supervisor notified.`
+        : `${col.label} entry "${value}" re-checked and corrected to ${replacement}.`);
+    });
+
+    if (noteColumn && actions.length > 0) {
+      const existing = isEmptyValue(row[noteColumn.key]) ? '' : String(row[noteColumn.key]);
+      const added = Array.from(new Set(actions)).filter(action => !existing.includes(action));
+      row[noteColumn.key] = [existing, ...added].filter(Boolean).join(' ');
+    }
+    return row;
+  });
+};
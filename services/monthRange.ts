@@ -0,0 +1,22 @@
+// Helpers for range runs that generate one sheet per month (YYYY-MM strings)
+
+export const MAX_RANGE_MONTHS = 24;
+
+export const shiftMonth = (month: string, delta: number): string => {
+  const [year, m] = month.split('-').map(Number);
+  const date = new Date(year, m - 1 + delta, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Inclusive list of months from start to end, capped at MAX_RANGE_MONTHS
+export const listMonths = (start: string, end?: string): string[] => {
+  if (!end || end <= start) return [start];
+  const months: string[] = [];
+  for (let month = start; month <= end && months.length < MAX_RANGE_MONTHS; month = shiftMonth(month, 1)) {
+    months.push(month);
+  }
+  return months;
+};
+
+export const isRangeConfig = (config: { targetMonth: string; endMonth?: string }): boolean =>
+  !!config.endMonth && config.endMonth > config.targetMonth;
@@ -0,0 +1,124 @@
+import { Schema, Type } from "@google/genai";
+import { LlmSettings } from '../types';
+import type { LlmProvider, JsonRequest } from './llmProvider';
+
+// Translate the Gemini-style schema used by the services into standard JSON Schema
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+
+  if (schema.type && schema.type !== Type.TYPE_UNSPECIFIED) {
+    const type = schema.type.toLowerCase();
+    result.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+  if (schema.minimum !== undefined) result.minimum = schema.minimum;
+  if (schema.maximum !== undefined) result.maximum = schema.maximum;
+  if (schema.pattern) result.pattern = schema.pattern;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+
+  return result;
+};
+
+// Some servers wrap JSON in markdown fences even when asked for JSON only
+const stripCodeFence = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+const buildUserContent = (request: JsonRequest) => {
+  if (!request.file) return request.prompt;
+
+  const dataUrl = `data:${request.file.mimeType};base64,${request.file.data}`;
+  const filePart = request.file.mimeType.startsWith('image/')
+    ? { type: 'image_url', image_url: { url: dataUrl } }
+    : { type: 'file', file: { filename: 'upload', file_data: dataUrl } };
+
+  return [filePart, { type: 'text', text: request.prompt }];
+};
+
+// Reads a server-sent event stream of chat completion chunks, reporting the content as it grows
+const readStreamedContent = async (response: Response, onText: (textSoFar: string) => void): Promise<string> => {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      let delta: unknown;
+      try {
+        delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      } catch {
+        continue; // Keep-alive or malformed chunk; the rest of the stream is still usable
+      }
+      if (typeof delta === 'string' && delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+};
+
+export const createOpenAiCompatibleProvider = (settings: LlmSettings): LlmProvider => ({
+  name: `OpenAI-compatible (${settings.model})`,
+  generateJson: async (request: JsonRequest) => {
+    if (!settings.baseUrl) {
+      throw new Error("Endpoint URL is missing");
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: request.temperature,
+        seed: request.seed,
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          { role: 'user', content: buildUserContent(request) }
+        ],
+        stream: !!request.onText,
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) } }
+          : { type: 'json_object' },
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      // Mirror the shape of SDK errors so retry and error handling treat both providers alike
+      throw Object.assign(new Error(`Endpoint returned ${response.status}: ${body || response.statusText}`), {
+        status: response.status,
+        statusText: response.statusText,
+      });
+    }
+
+    if (request.onText) {
+      return stripCodeFence(await readStreamedContent(response, request.onText));
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? stripCodeFence(content) : '';
+  }
+});
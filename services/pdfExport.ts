@@ -0,0 +1,313 @@
+import { jsPDF } from 'jspdf';
+import { TableTemplate, RowData, Column, PdfExportOptions } from '../types';
+import { getCellStatus, isEmptyValue } from './validation';
+import { getHeaderGroups, hasGroupedHeader, parseColumnWidth } from './tableLayout';
+
+// Vector (text) PDF of a filled log sheet laid out like the paper form:
+// property header, form code and month, grouped table header repeated on
+// every page, signature/verification block and page numbers.
+
+const MARGIN = 10; // mm
+const CELL_PADDING = 1.2; // mm
+const BASE_FONT_SIZE = 8; // pt
+const MIN_FONT_SIZE = 5; // pt
+const PT_TO_MM = 0.3528;
+const LINE_HEIGHT_FACTOR = 1.25;
+const PX_TO_MM = 0.2646;
+const FOOTER_HEIGHT = 8; // mm
+const SIGNATURE_BLOCK_HEIGHT = 32; // mm
+
+const HEADER_FILL: [number, number, number] = [241, 245, 249];
+const BORDER: [number, number, number] = [148, 163, 184];
+const TEXT: [number, number, number] = [15, 23, 42];
+const MUTED: [number, number, number] = [100, 116, 139];
+const DANGER: [number, number, number] = [185, 28, 28];
+
+export const DEFAULT_PDF_EXPORT_OPTIONS: PdfExportOptions = {
+  propertyName: 'Rewaya Hotel & Resort',
+  department: 'Quality & Hygiene Department',
+  includeSignatures: true,
+};
+
+// Form codes follow the "P-01-R1" / "W-00-R4.1" pattern, found in the name or the id
+export const getFormCode = (template: TableTemplate): string | undefined => {
+  const pattern = /\b([A-Z]-\d{2}-R\d+(?:\.\d+)?)\b/;
+  return template.name.match(pattern)?.[1] || template.id.match(pattern)?.[1];
+};
+
+const getFormTitle = (template: TableTemplate, formCode?: string) =>
+  formCode ? template.name.replace(new RegExp(`^${formCode.replace('.', '\\.')}\\s*[:\\-–—]?\\s*`), '') || template.name : template.name;
+
+export const formatTargetMonth = (targetMonth: string): string => {
+  const [year, month] = targetMonth.split('-').map(Number);
+  if (!year || !month) return targetMonth;
+  return new Date(year, month - 1, 1).toLocaleString('en-GB', { month: 'long', year: 'numeric' });
+};
+
+// The standard PDF fonts only cover Latin-1 plus a few typographic characters
+const toPdfText = (text: string) =>
+  text
+    .replace(/[✓✔]/g, 'OK')
+    .replace(/≤/g, '<=')
+    .replace(/≥/g, '>=')
+    .replace(/[^\x00-\xFF–—‘’“”•…]/g, '?');
+
+const formatCell = (value: RowData[string]) => (isEmptyValue(value) ? '' : toPdfText(String(value)));
+
+interface TableLayout {
+  orientation: 'portrait' | 'landscape';
+  fontSize: number;
+  widths: number[]; // mm per column
+}
+
+// Picks orientation and font size so every column fits on the page width
+const computeLayout = (pdf: jsPDF, columns: Column[], rows: RowData[]): TableLayout => {
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(BASE_FONT_SIZE);
+
+  const natural = columns.map(col => {
+    const configured = parseColumnWidth(col.width);
+    const headerWidth = Math.max(
+      ...col.label.split(/\s+/).map(word => pdf.getTextWidth(toPdfText(word))),
+      col.subLabel ? pdf.getTextWidth(toPdfText(col.subLabel)) * 0.85 : 0
+    );
+    const longestValue = rows.reduce((max, row) => Math.max(max, formatCell(row[col.key]).length), 0);
+    const valueWidth = col.type === 'text'
+      ? Math.min(pdf.getTextWidth('M'.repeat(Math.min(longestValue, 24))) * 0.7, 60)
+      : pdf.getTextWidth('0'.repeat(Math.max(longestValue, 2)));
+    const contentWidth = Math.max(headerWidth, valueWidth) + CELL_PADDING * 2;
+    return configured ? Math.max(configured * PX_TO_MM, contentWidth * 0.6) : contentWidth;
+  });
+  const total = natural.reduce((sum, w) => sum + w, 0);
+
+  const portraitWidth = 210 - MARGIN * 2;
+  const landscapeWidth = 297 - MARGIN * 2;
+  const orientation = total <= portraitWidth ? 'portrait' : 'landscape';
+  const available = orientation === 'portrait' ? portraitWidth : landscapeWidth;
+
+  // Shrink the font for very wide sheets, then stretch or squeeze widths to the page
+  const fontSize = Math.max(MIN_FONT_SIZE, Math.min(BASE_FONT_SIZE, BASE_FONT_SIZE * (available / total)));
+  const scale = available / total;
+  return { orientation, fontSize, widths: natural.map(w => w * scale) };
+};
+
+/**
+ * Renders the sheet as a vector PDF. Text stays selectable and searchable,
+ * and out-of-range values are printed in bold red.
+ */
+export const exportTableToPdf = (
+  template: TableTemplate,
+  rows: RowData[],
+  targetMonth: string,
+  options: PdfExportOptions = DEFAULT_PDF_EXPORT_OPTIONS
+): Blob => {
+  const { columns } = template;
+  const measure = new jsPDF({ unit: 'mm', format: 'a4' });
+  const layout = computeLayout(measure, columns, rows);
+
+  const pdf = new jsPDF({ orientation: layout.orientation, unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentBottom = pageHeight - MARGIN - FOOTER_HEIGHT;
+  const lineHeight = layout.fontSize * PT_TO_MM * LINE_HEIGHT_FACTOR;
+  const columnX = layout.widths.reduce<number[]>((xs, w, i) => [...xs, xs[i] + w], [MARGIN]);
+  const formCode = getFormCode(template);
+  const grouped = hasGroupedHeader(columns);
+
+  const drawPageHeader = (): number => {
+    let y = MARGIN;
+    pdf.setTextColor(...TEXT);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(13);
+    pdf.text(toPdfText(options.propertyName || ''), MARGIN, y + 5);
+    if (options.department) {
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(8);
+      pdf.setTextColor(...MUTED);
+      pdf.text(toPdfText(options.department), MARGIN, y + 9.5);
+    }
+
+    if (formCode) {
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(11);
+      pdf.setTextColor(...TEXT);
+      const codeWidth = pdf.getTextWidth(formCode) + 6;
+      pdf.setDrawColor(...TEXT);
+      pdf.setLineWidth(0.4);
+      pdf.rect(pageWidth - MARGIN - codeWidth, y, codeWidth, 8);
+      pdf.text(formCode, pageWidth - MARGIN - codeWidth / 2, y + 5.5, { align: 'center' });
+    }
+
+    y += 13;
+    pdf.setDrawColor(...TEXT);
+    pdf.setLineWidth(0.5);
+    pdf.line(MARGIN, y, pageWidth - MARGIN, y);
+
+    y += 6;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(11);
+    pdf.setTextColor(...TEXT);
+    pdf.text(toPdfText(getFormTitle(template, formCode)), MARGIN, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.text(`Month: ${formatTargetMonth(targetMonth)}`, pageWidth - MARGIN, y, { align: 'right' });
+    return y + 4;
+  };
+
+  const drawCell = (
+    text: string | string[],
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    style: { fill?: boolean; bold?: boolean; color?: [number, number, number]; size?: number; align?: 'left' | 'center' } = {}
+  ) => {
+    pdf.setDrawColor(...BORDER);
+    pdf.setLineWidth(0.15);
+    if (style.fill) {
+      pdf.setFillColor(...HEADER_FILL);
+      pdf.rect(x, y, w, h, 'FD');
+    } else {
+      pdf.rect(x, y, w, h);
+    }
+    const lines = Array.isArray(text) ? text : [text];
+    if (lines.length === 0 || (lines.length === 1 && !lines[0])) return;
+
+    const size = style.size ?? layout.fontSize;
+    const lh = size * PT_TO_MM * LINE_HEIGHT_FACTOR;
+    pdf.setFont('helvetica', style.bold ? 'bold' : 'normal');
+    pdf.setFontSize(size);
+    pdf.setTextColor(...(style.color || TEXT));
+    const textTop = y + (h - lh * lines.length) / 2 + lh * 0.75;
+    const align = style.align ?? 'center';
+    const textX = align === 'center' ? x + w / 2 : x + CELL_PADDING;
+    lines.forEach((line, i) => pdf.text(line, textX, textTop + i * lh, { align }));
+  };
+
+  const headerLines = (col: Column, width: number): { label: string[]; sub: string[] } => {
+    pdf.setFontSize(layout.fontSize);
+    pdf.setFont('helvetica', 'bold');
+    const label = pdf.splitTextToSize(toPdfText(col.label), width - CELL_PADDING * 2) as string[];
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(layout.fontSize * 0.85);
+    const sub = col.subLabel ? pdf.splitTextToSize(toPdfText(col.subLabel), width - CELL_PADDING * 2) as string[] : [];
+    return { label, sub };
+  };
+
+  const drawTableHeader = (top: number): number => {
+    const leafLines = columns.map((col, i) => headerLines(col, layout.widths[i]));
+    const subSize = layout.fontSize * 0.85;
+    const subLineHeight = subSize * PT_TO_MM * LINE_HEIGHT_FACTOR;
+    const blockHeight = (i: number) => leafLines[i].label.length * lineHeight + leafLines[i].sub.length * subLineHeight;
+    const leafHeight = Math.max(...columns.map((_, i) => blockHeight(i))) + CELL_PADDING * 2;
+    const groupHeight = lineHeight + CELL_PADDING * 2;
+    const leafTop = grouped ? top + groupHeight : top;
+
+    // Bold label lines followed by smaller, muted sub-label lines, centred vertically
+    const drawLeaf = (i: number, y: number, h: number) => {
+      drawCell('', columnX[i], y, layout.widths[i], h, { fill: true });
+      const cx = columnX[i] + layout.widths[i] / 2;
+      let cursor = y + (h - blockHeight(i)) / 2;
+      pdf.setTextColor(...TEXT);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(layout.fontSize);
+      leafLines[i].label.forEach(line => {
+        pdf.text(line, cx, cursor + lineHeight * 0.75, { align: 'center' });
+        cursor += lineHeight;
+      });
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(subSize);
+      pdf.setTextColor(...MUTED);
+      leafLines[i].sub.forEach(line => {
+        pdf.text(line, cx, cursor + subLineHeight * 0.75, { align: 'center' });
+        cursor += subLineHeight;
+      });
+    };
+
+    if (grouped) {
+      getHeaderGroups(columns).forEach(group => {
+        if (group.name) {
+          const width = layout.widths.slice(group.start, group.start + group.span).reduce((sum, w) => sum + w, 0);
+          const text = pdf.splitTextToSize(toPdfText(group.name), width - CELL_PADDING * 2)[0] as string;
+          drawCell(text, columnX[group.start], top, width, groupHeight, { fill: true, bold: true });
+        } else {
+          // Ungrouped columns span both header rows
+          drawLeaf(group.start, top, groupHeight + leafHeight);
+        }
+      });
+    }
+    columns.forEach((col, i) => {
+      if (grouped && !col.group) return;
+      drawLeaf(i, leafTop, leafHeight);
+    });
+    return leafTop + leafHeight;
+  };
+
+  const startPage = (): number => drawTableHeader(drawPageHeader());
+
+  let y = startPage();
+  rows.forEach(row => {
+    const cells = columns.map((col, i) => {
+      const text = formatCell(row[col.key]);
+      pdf.setFontSize(layout.fontSize);
+      const lines = col.type === 'text' ? pdf.splitTextToSize(text, layout.widths[i] - CELL_PADDING * 2) as string[] : [text];
+      const isViolation = !isEmptyValue(row[col.key]) && getCellStatus(row[col.key], col).status === 'danger';
+      return { lines, isViolation, align: col.type === 'text' && lines.length > 1 ? 'left' as const : 'center' as const };
+    });
+    const rowHeight = Math.max(...cells.map(c => c.lines.length)) * lineHeight + CELL_PADDING * 2;
+
+    if (y + rowHeight > contentBottom) {
+      pdf.addPage();
+      y = startPage();
+    }
+    cells.forEach((cell, i) => {
+      drawCell(cell.lines, columnX[i], y, layout.widths[i], rowHeight, {
+        bold: cell.isViolation,
+        color: cell.isViolation ? DANGER : TEXT,
+        align: cell.align,
+      });
+    });
+    y += rowHeight;
+  });
+
+  if (options.includeSignatures) {
+    if (y + SIGNATURE_BLOCK_HEIGHT > contentBottom) {
+      pdf.addPage();
+      y = drawPageHeader();
+    }
+    y += 6;
+    const blocks = ['Recorded by (Operator)', 'Verified by (Supervisor)', 'Reviewed by (Quality & Hygiene)'];
+    const blockWidth = (pageWidth - MARGIN * 2 - 8 * (blocks.length - 1)) / blocks.length;
+    blocks.forEach((title, i) => {
+      const x = MARGIN + i * (blockWidth + 8);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(8);
+      pdf.setTextColor(...TEXT);
+      pdf.text(title, x, y);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(...MUTED);
+      pdf.setDrawColor(...BORDER);
+      pdf.setLineWidth(0.2);
+      ['Name', 'Signature', 'Date'].forEach((field, f) => {
+        const lineY = y + 8 + f * 7;
+        pdf.text(`${field}:`, x, lineY);
+        pdf.line(x + 16, lineY, x + blockWidth, lineY);
+      });
+    });
+  }
+
+  // Footer with page numbers, written once the total page count is known
+  const pageCount = pdf.getNumberOfPages();
+  const generatedAt = new Date().toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7);
+    pdf.setTextColor(...MUTED);
+    const footerY = pageHeight - MARGIN;
+    pdf.text(toPdfText(`${formCode ? `${formCode} · ` : ''}${formatTargetMonth(targetMonth)} · Generated ${generatedAt}`), MARGIN, footerY);
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, footerY, { align: 'right' });
+  }
+
+  return pdf.output('blob');
+};
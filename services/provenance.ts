@@ -0,0 +1,184 @@
+import { Column, RowData, CellSource, CellChange, CellProvenance, RowProvenance, DeletedRow, ConfidenceFlag, CellConfidence } from '../types';
+import { isEmptyValue } from './validation';
+
+// Cell provenance: which run, person or import wrote each value, and what it replaced.
+// Provenance is derived by comparing the rows before and after each committed change.
+
+export interface ProvenanceStamp {
+  source: CellSource;
+  editor?: string;
+}
+
+export const SOURCE_LABELS: Record<CellSource, string> = {
+  ai: 'AI generation',
+  offline: 'Offline generator',
+  autofix: 'AutoFix',
+  manual: 'Manual edit',
+  import: 'File import',
+  upload: 'Scanned sheet',
+};
+
+const sameValue = (a: unknown, b: unknown) =>
+  (isEmptyValue(a) && isEmptyValue(b)) || a === b;
+
+/**
+ * Provenance for `nextRows` after a change. Rows that are the same objects as before keep
+ * their provenance (so deleting rows does not shift it); replaced rows are compared with the
+ * row at the same position when the row count is unchanged, otherwise treated as new.
+ * Only cells whose value changed get a new entry; the entry it replaces moves to its history.
+ */
+export const trackProvenance = (
+  prevRows: RowData[],
+  prevProvenance: RowProvenance[],
+  nextRows: RowData[],
+  stamp: ProvenanceStamp,
+  at = Date.now()
+): RowProvenance[] => {
+  const indexByRow = new Map(prevRows.map((row, i) => [row, i]));
+  const sameLength = prevRows.length === nextRows.length;
+
+  return nextRows.map((row, i) => {
+    const unchanged = indexByRow.get(row);
+    if (unchanged !== undefined) return prevProvenance[unchanged] || {};
+
+    const base = sameLength ? prevRows[i] : undefined;
+    const baseProvenance = (sameLength && prevProvenance[i]) || {};
+    const provenance: RowProvenance = {};
+    Object.keys(row).forEach(key => {
+      const previous = base ? base[key] ?? null : null;
+      if (sameValue(row[key], previous)) {
+        if (baseProvenance[key]) provenance[key] = baseProvenance[key];
+        return;
+      }
+      provenance[key] = { source: stamp.source, at, editor: stamp.editor, previous, history: toHistory(baseProvenance[key]) };
+    });
+    return provenance;
+  });
+};
+
+const toHistory = (entry: CellProvenance | undefined): CellChange[] | undefined => {
+  if (!entry) return undefined;
+  const { source, at, editor, previous, history = [] } = entry;
+  return [...history, { source, at, editor, previous }];
+};
+
+/**
+ * Rows of `prevRows` missing from `nextRows`. Rows replaced in place while the row count stays
+ * the same are edits, tracked per cell; blank rows are not worth logging.
+ */
+export const trackDeletedRows = (
+  prevRows: RowData[],
+  prevProvenance: RowProvenance[],
+  nextRows: RowData[],
+  stamp: ProvenanceStamp,
+  at = Date.now()
+): DeletedRow[] => {
+  if (prevRows.length === nextRows.length) return [];
+  const kept = new Set(nextRows);
+  return prevRows.flatMap((row, position) => kept.has(row) || Object.values(row).every(isEmptyValue)
+    ? []
+    : [{ source: stamp.source, at, editor: stamp.editor, position, values: row, provenance: prevProvenance[position] || {} }]);
+};
+
+export const CONFIDENCE_LABELS: Record<CellConfidence, string> = {
+  low: 'Uncertain reading',
+  illegible: 'Illegible on the scan',
+};
+
+/**
+ * Marks scanned cells for verification. Flagged cells that are still empty (illegible ones)
+ * get an entry of their own, so the flag survives until someone fills or confirms the cell.
+ */
+export const applyConfidenceFlags = (
+  provenance: RowProvenance[],
+  flags: ConfidenceFlag[],
+  stamp: ProvenanceStamp,
+  at = Date.now()
+): RowProvenance[] => {
+  const next = provenance.map(row => ({ ...row }));
+  flags.forEach(flag => {
+    if (!next[flag.row]) return;
+    const entry = next[flag.row][flag.key] || { source: stamp.source, at, editor: stamp.editor, previous: null };
+    next[flag.row][flag.key] = { ...entry, confidence: flag.confidence, confidenceNote: flag.note };
+  });
+  return next;
+};
+
+// Clears the flags of cells someone checked against the scan and found correct
+export const confirmCells = (provenance: RowProvenance[], cells: { row: number; key: string }[]): RowProvenance[] => {
+  const next = [...provenance];
+  cells.forEach(({ row, key }) => {
+    const entry = next[row]?.[key];
+    if (!entry?.confidence) return;
+    const { confidence, confidenceNote, ...rest } = entry;
+    next[row] = { ...next[row], [key]: rest };
+  });
+  return next;
+};
+
+export const countUnverifiedCells = (provenance: RowProvenance[]): number =>
+  provenance.reduce((total, row) => total + Object.values(row).filter(entry => entry.confidence).length, 0);
+
+// Tooltip text, e.g. "Manual edit by J. Smith · 19/10/2026, 14:02 · was 7.9"
+export const describeProvenance = (entry: CellProvenance): string => {
+  const parts = [
+    `${SOURCE_LABELS[entry.source]}${entry.editor ? ` by ${entry.editor}` : ''}`,
+    new Date(entry.at).toLocaleString(),
+  ];
+  if (!isEmptyValue(entry.previous)) parts.push(`was ${entry.previous}`);
+  if (entry.history?.length) parts.push(`${entry.history.length} earlier change${entry.history.length === 1 ? '' : 's'}`);
+  if (entry.confidence) parts.push(`${CONFIDENCE_LABELS[entry.confidence]}${entry.confidenceNote ? ` (${entry.confidenceNote})` : ''}, verify against the original`);
+  return parts.join(' · ');
+};
+
+export interface AuditEntry extends CellChange {
+  row: number; // 1-based row number in the sheet; for deleted rows, the position they had
+  column: string; // Column label, or DELETED_ROW_LABEL for a row deletion
+  value: RowData[string]; // Value the change wrote; null for a row deletion
+  confidence?: CellConfidence; // Only on the latest change of a cell
+}
+
+const DELETED_ROW_LABEL = 'Row deleted';
+
+// Every change of one cell, from its history to the latest entry
+const listCellChanges = (entry: CellProvenance, row: number, column: string, value: RowData[string]): AuditEntry[] => {
+  const changes = [...(entry.history || []), entry];
+  return changes.map(({ source, at, editor, previous }, i) => ({
+    source, at, editor, previous, row, column,
+    // Each change wrote the value the next one replaced
+    value: i < changes.length - 1 ? changes[i + 1].previous : value,
+    confidence: i === changes.length - 1 ? entry.confidence : undefined,
+  }));
+};
+
+// e.g. "Time: 08:00, pH: 7.4"
+const describeRowValues = (columns: Column[], values: RowData): string =>
+  columns.filter(col => !isEmptyValue(values[col.key])).map(col => `${col.label}: ${values[col.key]}`).join(', ');
+
+// Flattened change log for the audit sheet, oldest change first, including deleted rows and their cell changes
+export const listAuditEntries = (
+  columns: Column[],
+  rows: RowData[],
+  provenance: RowProvenance[],
+  deletedRows: DeletedRow[] = []
+): AuditEntry[] => {
+  const listRowChanges = (values: RowData, rowProvenance: RowProvenance | undefined, row: number) => columns
+    .filter(col => rowProvenance?.[col.key])
+    .flatMap(col => listCellChanges(rowProvenance![col.key], row, col.label, values[col.key] ?? null));
+
+  return [
+    ...rows.flatMap((row, r) => listRowChanges(row, provenance[r], r + 1)),
+    ...deletedRows.flatMap(deleted => [
+      ...listRowChanges(deleted.values, deleted.provenance, deleted.position + 1),
+      {
+        source: deleted.source,
+        at: deleted.at,
+        editor: deleted.editor,
+        previous: describeRowValues(columns, deleted.values),
+        row: deleted.position + 1,
+        column: DELETED_ROW_LABEL,
+        value: null,
+      },
+    ]),
+  ].sort((a, b) => a.at - b.at);
+};
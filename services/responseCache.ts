@@ -0,0 +1,57 @@
+import { TableTemplate, SimulationConfig } from '../types';
+import type { LlmProvider, JsonRequest } from './llmProvider';
+import { hashString } from './seededRandom';
+import { loadCachedResponse, saveCachedResponse } from './workspaceStore';
+
+// Records model responses of seeded runs so the same template, settings and prompt give the same
+// sheet again without calling the API. Recorded responses double as fixtures for offline runs.
+
+// Settings that shape the prompt; the range end and the replay switch do not
+export const getCacheScope = (template: TableTemplate, config: SimulationConfig): string => {
+  const { endMonth, replay, engine, ...settings } = config;
+  return `${template.id}::${hashString(JSON.stringify(settings))}`;
+};
+
+const getRequestHash = (provider: LlmProvider, request: JsonRequest): string =>
+  hashString(JSON.stringify({
+    provider: provider.name,
+    systemInstruction: request.systemInstruction,
+    prompt: request.prompt,
+    responseSchema: request.responseSchema,
+    temperature: request.temperature,
+    seed: request.seed,
+    file: request.file ? `${request.file.mimeType}:${hashString(request.file.data)}` : undefined,
+  }));
+
+export const createReplayMissError = (label: string) =>
+  new Error(`No recorded response for ${label}. Turn off replay, or run once with the same seed and settings to record it.`);
+
+/**
+ * Wraps a provider so responses are read from and written to the local cache. In replay mode a
+ * missing response is an error instead of an API call. Cached text is reported to onText in one
+ * piece so streaming views still update.
+ */
+export const withResponseCache = (
+  provider: LlmProvider,
+  scope: string,
+  options: { replay?: boolean; label?: string } = {}
+): LlmProvider => ({
+  name: provider.name,
+  generateJson: async (request: JsonRequest) => {
+    const key = `${scope}::${getRequestHash(provider, request)}`;
+    const cached = await loadCachedResponse(key).catch(error => {
+      console.error("Failed to read response cache", error);
+      return undefined;
+    });
+    if (cached) {
+      request.onText?.(cached.text);
+      return cached.text;
+    }
+    if (options.replay) throw createReplayMissError(options.label || 'this request');
+
+    const text = await provider.generateJson(request);
+    await saveCachedResponse({ key, text, provider: provider.name, createdAt: Date.now() })
+      .catch(error => console.error("Failed to save response to cache", error));
+    return text;
+  }
+});
@@ -0,0 +1,248 @@
+import { Column, RowData, QualityReport, ConfidenceFlag, CellConfidence } from '../types';
+import { findOption, getCellStatus, isEmptyValue } from './validation';
+
+// Checks AI output against the template before it reaches the table: parses (and salvages)
+// the JSON, keeps only template keys, coerces values to the column type and counts what it changed.
+
+// Share of broken cells above which a batch is re-requested instead of accepted
+const MAX_BROKEN_CELL_RATIO = 0.2;
+const LEADING_NUMBER = /^\s*([-+]?\d+(?:[.,]\d+)?)/;
+const COLUMN_TYPES: Column['type'][] = ['text', 'number', 'date', 'time', 'select', 'status'];
+
+export interface ValidatedBatch {
+  rows: RowData[];
+  report: QualityReport;
+  problems: string[]; // Reasons the batch should be re-requested; empty when usable
+}
+
+export const createQualityReport = (): QualityReport => ({
+  rowsExpected: 0,
+  rowsReceived: 0,
+  coercedCells: 0,
+  clearedCells: 0,
+  missingRequired: 0,
+  outOfRange: 0,
+  repairedResponses: 0,
+  retriedBatches: 0,
+  paddedRows: 0,
+  droppedRows: 0,
+});
+
+export const mergeQualityReports = (a: QualityReport, b: QualityReport): QualityReport =>
+  Object.fromEntries(
+    Object.keys(a).map(key => [key, a[key as keyof QualityReport] + b[key as keyof QualityReport]])
+  ) as unknown as QualityReport;
+
+// Cuts a truncated JSON array after its last complete element, e.g. '[{"a":1},{"a' -> '[{"a":1}]'
+const closeTruncatedArray = (text: string): string | null => {
+  const start = text.indexOf('[');
+  if (start === -1) return null;
+  let depth = 0;
+  let inString = false;
+  let lastComplete = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 1) lastComplete = i;
+      if (depth === 0) return null; // The array is closed; the problem is elsewhere
+    }
+  }
+  return lastComplete === -1 ? '[]' : `${text.slice(start, lastComplete + 1)}]`;
+};
+
+const stripCodeFence = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Parses model text as JSON. Markdown fences are stripped and a truncated top-level
+ * array is closed after its last complete row. Throws if nothing usable remains.
+ */
+export const parseModelJson = (text: string): { value: unknown; repaired: boolean } => {
+  const trimmed = stripCodeFence(text);
+  try {
+    return { value: JSON.parse(trimmed), repaired: trimmed !== text.trim() };
+  } catch (error) {
+    const salvaged = closeTruncatedArray(trimmed);
+    if (salvaged) {
+      try {
+        return { value: JSON.parse(salvaged), repaired: true };
+      } catch {
+        // Fall through to the original error
+      }
+    }
+    throw new Error(`The AI response is not valid JSON (${(error as Error).message})`);
+  }
+};
+
+// Some models wrap the array, e.g. { "rows": [...] }
+const unwrapRows = (value: unknown): unknown[] | null => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'object' && value !== null) {
+    const arrays = Object.values(value).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0];
+  }
+  return null;
+};
+
+// The complete rows of a streamed JSON array received so far; the unfinished row is ignored
+export const parsePartialRows = (text: string): unknown[] => {
+  const trimmed = stripCodeFence(text);
+  try {
+    return unwrapRows(JSON.parse(closeTruncatedArray(trimmed) ?? trimmed)) || [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Converts a model value to what the table stores for the column.
+ * 'coerced' means the value was changed to fit, 'cleared' that it was unusable.
+ */
+export const coerceModelValue = (value: unknown, col: Column): { value: string | number | null; outcome: 'ok' | 'coerced' | 'cleared' } => {
+  if (isEmptyValue(value)) return { value: null, outcome: 'ok' };
+  if (typeof value === 'object' || typeof value === 'boolean') return { value: null, outcome: 'cleared' };
+
+  if (col.type === 'number') {
+    if (typeof value === 'number') return Number.isFinite(value) ? { value, outcome: 'ok' } : { value: null, outcome: 'cleared' };
+    // Models sometimes add units ("7.4 ppm") or use a decimal comma
+    const match = String(value).match(LEADING_NUMBER);
+    return match ? { value: Number(match[1].replace(',', '.')), outcome: 'coerced' } : { value: null, outcome: 'cleared' };
+  }
+
+  const text = String(value).trim();
+  // Store the canonical option value when the model answers with the option label
+  const option = findOption(col, text);
+  const stored = option ? option.value : text;
+  return { value: stored, outcome: typeof value === 'string' && stored === value ? 'ok' : 'coerced' };
+};
+
+/**
+ * Validates parsed model output against the columns. Rows keep only template keys;
+ * surplus rows are dropped and missing ones padded with blanks (and reported as a problem).
+ * With `enforceRanges`, out-of-range values also count as broken cells.
+ */
+export const validateModelRows = (
+  value: unknown,
+  columns: Column[],
+  expectedRows?: number,
+  enforceRanges = false
+): ValidatedBatch => {
+  const report = createQualityReport();
+  const problems: string[] = [];
+  const unwrapped = unwrapRows(value);
+  const items = unwrapped || [];
+  if (!unwrapped) problems.push('response is not a list of rows');
+
+  report.rowsExpected = expectedRows ?? items.length;
+  report.rowsReceived = items.length;
+  let brokenCells = 0;
+
+  const accepted = expectedRows !== undefined ? items.slice(0, expectedRows) : items;
+  report.droppedRows = items.length - accepted.length;
+
+  const rows = accepted.map(item => {
+    const source = typeof item === 'object' && item !== null && !Array.isArray(item) ? item as Record<string, unknown> : {};
+    const row: RowData = {};
+    columns.forEach(col => {
+      const { value: cell, outcome } = coerceModelValue(source[col.key], col);
+      row[col.key] = cell;
+      if (outcome === 'coerced') report.coercedCells++;
+      if (outcome === 'cleared') {
+        report.clearedCells++;
+        brokenCells++;
+      }
+      if (isEmptyValue(cell)) {
+        if (col.validation?.required) {
+          report.missingRequired++;
+          brokenCells++;
+        }
+      } else if (getCellStatus(cell, col).status === 'danger') {
+        report.outOfRange++;
+        if (enforceRanges) brokenCells++;
+      }
+    });
+    return row;
+  });
+
+  if (expectedRows !== undefined && rows.length < expectedRows) {
+    problems.push(`${rows.length} of ${expectedRows} rows returned`);
+    report.paddedRows = expectedRows - rows.length;
+    while (rows.length < expectedRows) rows.push(Object.fromEntries(columns.map(c => [c.key, null])));
+  }
+  const totalCells = Math.max(rows.length * columns.length, 1);
+  if (brokenCells / totalCells > MAX_BROKEN_CELL_RATIO) {
+    problems.push(`${brokenCells} of ${totalCells} cells missing or unusable`);
+  }
+  return { rows, report, problems };
+};
+
+// Columns extracted from an uploaded sheet; entries without a usable key are skipped
+export const sanitizeExtractedColumns = (value: unknown): Column[] => {
+  if (!Array.isArray(value)) return [];
+  const keys = new Set<string>();
+  return value.flatMap(item => {
+    if (typeof item !== 'object' || item === null) return [];
+    const raw = item as Record<string, unknown>;
+    const key = typeof raw.key === 'string' ? raw.key.trim() : '';
+    if (!key || keys.has(key)) return [];
+    keys.add(key);
+    const label = typeof raw.label === 'string' && raw.label.trim() ? raw.label : key;
+    const type = COLUMN_TYPES.includes(raw.type as Column['type']) ? raw.type as Column['type'] : 'text';
+    return [{ ...raw, key, label, type } as Column];
+  });
+};
+
+const CONFIDENCE_LEVELS: CellConfidence[] = ['low', 'illegible'];
+
+// Confidence flags of a transcription; flags outside the rows or columns, or repeated, are skipped
+export const sanitizeConfidenceFlags = (value: unknown, columns: Column[], rowCount: number): ConfidenceFlag[] => {
+  if (!Array.isArray(value)) return [];
+  const keys = new Set(columns.map(c => c.key));
+  const seen = new Set<string>();
+  return value.flatMap(item => {
+    if (typeof item !== 'object' || item === null) return [];
+    const raw = item as Record<string, unknown>;
+    const row = Number(raw.row);
+    const key = typeof raw.key === 'string' ? raw.key : '';
+    const confidence = CONFIDENCE_LEVELS.includes(raw.confidence as CellConfidence) ? raw.confidence as CellConfidence : 'low';
+    if (!Number.isInteger(row) || row < 0 || row >= rowCount || !keys.has(key) || seen.has(`${row}:${key}`)) return [];
+    seen.add(`${row}:${key}`);
+    const note = typeof raw.note === 'string' && raw.note.trim() ? raw.note.trim() : undefined;
+    return [{ row, key, confidence, note }];
+  });
+};
+
+// Fewer problems first, then fewer broken cells; used to keep the best attempt after retries
+export const isBetterBatch = (
+  candidate: Pick<ValidatedBatch, 'report' | 'problems'>,
+  current: Pick<ValidatedBatch, 'report' | 'problems'> | null
+): boolean => {
+  if (!current) return true;
+  if (candidate.problems.length !== current.problems.length) return candidate.problems.length < current.problems.length;
+  const broken = (b: Pick<ValidatedBatch, 'report'>) => b.report.clearedCells + b.report.missingRequired + b.report.paddedRows;
+  return broken(candidate) < broken(current);
+};
+
+// Short lines for the quality summary shown after a generation
+export const describeQualityReport = (report: QualityReport): string[] => {
+  const lines: string[] = [];
+  if (report.rowsReceived !== report.rowsExpected) lines.push(`${report.rowsReceived} of ${report.rowsExpected} rows returned by the model`);
+  if (report.paddedRows > 0) lines.push(`${report.paddedRows} blank row(s) added to complete the sheet`);
+  if (report.droppedRows > 0) lines.push(`${report.droppedRows} surplus row(s) discarded`);
+  if (report.retriedBatches > 0) lines.push(`${report.retriedBatches} batch(es) re-requested`);
+  if (report.repairedResponses > 0) lines.push(`${report.repairedResponses} malformed response(s) repaired`);
+  if (report.coercedCells > 0) lines.push(`${report.coercedCells} value(s) converted to the column type`);
+  if (report.clearedCells > 0) lines.push(`${report.clearedCells} unusable value(s) left empty`);
+  if (report.missingRequired > 0) lines.push(`${report.missingRequired} required cell(s) empty`);
+  if (report.outOfRange > 0) lines.push(`${report.outOfRange} value(s) outside their column rule`);
+  return lines;
+};
@@ -0,0 +1,137 @@
+import { TableTemplate, Column, RowData, StaffMember } from '../types';
+import { CellCheck, isEmptyValue } from './validation';
+import { getRowAxis } from './rowSkeleton';
+
+// Staff roster rules for person columns ("Name", "Checked By", "Done By", "Signatures"):
+// who may sign a row, based on the row's weekday and the times the sheet is checked.
+
+const PERSON_KEY = /^(name|signatures?)$|(^|_)by(_|$)|by_whom/;
+const TIME_TEXT = /(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i;
+const TIME_KEY = /_(\d{1,2})(am|pm)$/;
+const HH_MM = /^(\d{1,2}):(\d{2})/;
+export const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const isPersonColumn = (col: Column) => col.type === 'text' && PERSON_KEY.test(col.key);
+
+const toMinutes = (hours: number, minutes: number, meridiem?: string) => {
+  const h = meridiem ? (hours % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0) : hours;
+  return h * 60 + minutes;
+};
+
+const parseClockTime = (text: string): number | null => {
+  const match = text.match(HH_MM);
+  return match ? toMinutes(Number(match[1]), Number(match[2])) : null;
+};
+
+// Check times of the sheet in minutes after midnight, from labels like "9:00 AM" or keys like "ph_3pm"
+export const getCheckTimes = (template: TableTemplate): number[] => {
+  const times = new Set<number>();
+  template.columns.forEach(col => {
+    const text = `${col.label} ${col.group || ''}`.match(TIME_TEXT);
+    const key = col.key.match(TIME_KEY);
+    if (text) times.add(toMinutes(Number(text[1]), Number(text[2] || 0), text[3]));
+    else if (key) times.add(toMinutes(Number(key[1]), 0, key[2]));
+  });
+  return Array.from(times).sort((a, b) => a - b);
+};
+
+// Calendar date of a row (UTC), from the day axis or an ISO date cell; null when unknown
+export const getRowDate = (template: TableTemplate, row: RowData, targetMonth: string): Date | null => {
+  const axis = getRowAxis(template);
+  if (axis.kind === 'days') {
+    const day = Number(row[axis.column]);
+    const [year, month] = targetMonth.split('-').map(Number);
+    if (Number.isInteger(day) && day >= 1) return new Date(Date.UTC(year, month - 1, day));
+  }
+  const dateColumn = template.columns.find(c => c.type === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(String(row[c.key] ?? '')));
+  return dateColumn ? new Date(`${row[dateColumn.key]}T00:00:00Z`) : null;
+};
+
+const isOnShiftAt = (member: StaffMember, minutes: number) => {
+  const start = parseClockTime(member.shiftStart);
+  const end = parseClockTime(member.shiftEnd);
+  if (start === null || end === null) return true;
+  // Overnight shifts wrap past midnight
+  return start <= end ? minutes >= start && minutes <= end : minutes >= start || minutes <= end;
+};
+
+/**
+ * Staff who can sign a row: working on the row's weekday and on shift for at least one of the
+ * times (the row's own time cell, else the sheet's check times). Unknown dates or times do not filter.
+ */
+export const getOnShiftStaff = (roster: StaffMember[], date: Date | null, times: number[]): StaffMember[] =>
+  roster.filter(member =>
+    (!date || member.workingDays.includes((date.getUTCDay() + 6) % 7)) &&
+    (times.length === 0 || times.some(minutes => isOnShiftAt(member, minutes)))
+  );
+
+// Matches a cell against roster names and initials, ignoring case and spacing
+export const findRosterMember = (roster: StaffMember[], value: unknown): StaffMember | undefined => {
+  if (isEmptyValue(value)) return undefined;
+  const normalize = (text: string) => text.toLowerCase().replace(/[\s.]+/g, '');
+  const target = normalize(String(value));
+  return roster.find(member => normalize(member.name) === target || normalize(member.initials) === target);
+};
+
+const getRowTimes = (template: TableTemplate, row: RowData, checkTimes: number[]): number[] => {
+  const timeColumn = template.columns.find(c => c.type === 'time' && !isEmptyValue(row[c.key]));
+  const rowTime = timeColumn ? parseClockTime(String(row[timeColumn.key])) : null;
+  return rowTime !== null ? [rowTime] : checkTimes;
+};
+
+/**
+ * Makes generated person cells name rostered staff on shift for their row. Names that already
+ * qualify are kept (in their roster spelling); others are replaced by an eligible person,
+ * or cleared when nobody was on shift. Empty cells stay empty.
+ */
+export const assignRosterNames = (
+  template: TableTemplate,
+  rows: RowData[],
+  roster: StaffMember[],
+  targetMonth: string,
+  random: () => number = Math.random
+): RowData[] => {
+  const personColumns = template.columns.filter(isPersonColumn);
+  if (roster.length === 0 || personColumns.length === 0) return rows;
+  const checkTimes = getCheckTimes(template);
+
+  return rows.map(row => {
+    const eligible = getOnShiftStaff(roster, getRowDate(template, row, targetMonth), getRowTimes(template, row, checkTimes));
+    const next = { ...row };
+    personColumns.forEach(col => {
+      if (isEmptyValue(row[col.key])) return;
+      const current = findRosterMember(eligible, row[col.key]);
+      next[col.key] = current ? current.name
+        : eligible.length > 0 ? eligible[Math.floor(random() * eligible.length)].name
+        : null;
+    });
+    return next;
+  });
+};
+
+// Roster problems of one person cell: unknown names are errors, off-shift staff a warning
+export const checkRosterName = (
+  template: TableTemplate,
+  row: RowData,
+  col: Column,
+  roster: StaffMember[],
+  targetMonth: string
+): CellCheck | null => {
+  const value = row[col.key];
+  if (roster.length === 0 || !isPersonColumn(col) || isEmptyValue(value)) return null;
+  const member = findRosterMember(roster, value);
+  if (!member) return { status: 'danger', message: `"${value}" is not on the staff roster` };
+
+  const date = getRowDate(template, row, targetMonth);
+  if (getOnShiftStaff([member], date, getRowTimes(template, row, getCheckTimes(template))).length === 0) {
+    const day = date ? ` on ${WEEKDAY_NAMES[(date.getUTCDay() + 6) % 7]} ${date.toISOString().slice(0, 10)}` : '';
+    return { status: 'warning', message: `${member.name} was not on shift${day}` };
+  }
+  return null;
+};
+
+// Roster lines for AI prompts, e.g. "J. Smith (JS), Pool Technician: Mon, Tue 07:00-15:00"
+export const describeRoster = (roster: StaffMember[]): string[] =>
+  roster.map(member =>
+    `${member.name} (${member.initials}), ${member.role}: ${member.workingDays.map(d => WEEKDAY_NAMES[d]).join(', ')} ${member.shiftStart}-${member.shiftEnd}`
+  );
@@ -0,0 +1,112 @@
+import { TableTemplate, RowAxis, RowData, Column } from '../types';
+
+// Deterministic row skeletons: row count plus the day/date/week/asset cells of every row,
+// computed from the template's row axis and the target month. Generators fill the rest.
+
+const DAY_KEYS = ['day', 'date'];
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const WEEKDAY_KEYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RowSkeleton {
+  rows: RowData[]; // Computed cells only; null means the cell must stay empty
+  fixedKeys: string[]; // Columns computed for every row
+  hints: string[]; // Calendar context per row for prompts, e.g. "Sat 2025-02-01"
+}
+
+export const getDaysInMonth = (targetMonth: string): number => {
+  const [year, month] = targetMonth.split('-').map(Number);
+  return new Date(year, month, 0).getDate();
+};
+
+// Numeric day/date columns mark a daily sheet when no axis is declared
+const findDayColumn = (template: TableTemplate): Column | undefined =>
+  template.columns.find(c => DAY_KEYS.includes(c.key) && c.type === 'number');
+
+export const getRowAxis = (template: TableTemplate): RowAxis => {
+  if (template.rowAxis) return template.rowAxis;
+  const dayColumn = findDayColumn(template);
+  return dayColumn ? { kind: 'days', column: dayColumn.key } : { kind: 'free' };
+};
+
+const toUtcDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+const formatIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+const formatShortDate = (date: Date) => `${date.getUTCDate()}/${date.getUTCMonth() + 1}`;
+const weekdayIndex = (date: Date) => (date.getUTCDay() + 6) % 7; // Monday = 0
+
+export const getIsoWeek = (date: Date): { year: number; week: number } => {
+  const thursday = new Date(date.getTime() + (3 - weekdayIndex(date)) * DAY_MS);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return { year: thursday.getUTCFullYear(), week: Math.floor((thursday.getTime() - yearStart) / DAY_MS / 7) + 1 };
+};
+
+// Columns for individual weekdays (e.g. "Monday" ... "Sunday"), by weekday index
+const getWeekdayColumns = (template: TableTemplate): (Column | undefined)[] =>
+  WEEKDAYS.map((name, i) => template.columns.find(c => c.label.toLowerCase() === name || c.key === WEEKDAY_KEYS[i]));
+
+const buildDays = (template: TableTemplate, column: string, targetMonth: string): RowSkeleton => {
+  const [year, month] = targetMonth.split('-').map(Number);
+  const dateColumns = template.columns.filter(c => c.type === 'date' && c.key !== column);
+  const rows: RowData[] = [];
+  const hints: string[] = [];
+
+  for (let day = 1; day <= getDaysInMonth(targetMonth); day++) {
+    const date = toUtcDate(year, month, day);
+    const row: RowData = { [column]: day };
+    dateColumns.forEach(c => { row[c.key] = formatIsoDate(date); });
+    rows.push(row);
+    hints.push(`${WEEKDAY_NAMES[weekdayIndex(date)]} ${formatIsoDate(date)}`);
+  }
+  return { rows, fixedKeys: [column, ...dateColumns.map(c => c.key)], hints };
+};
+
+const buildWeeks = (template: TableTemplate, column: string, targetMonth: string): RowSkeleton => {
+  const [year, month] = targetMonth.split('-').map(Number);
+  const first = toUtcDate(year, month, 1);
+  const last = toUtcDate(year, month, getDaysInMonth(targetMonth));
+  const weekdayColumns = getWeekdayColumns(template);
+  const rows: RowData[] = [];
+  const hints: string[] = [];
+
+  for (let monday = new Date(first.getTime() - weekdayIndex(first) * DAY_MS); monday <= last; monday = new Date(monday.getTime() + 7 * DAY_MS)) {
+    const sunday = new Date(monday.getTime() + 6 * DAY_MS);
+    const { week } = getIsoWeek(monday);
+    const row: RowData = { [column]: `Week ${week} (${formatShortDate(monday)}–${formatShortDate(sunday)})` };
+    // Days that fall in the neighbouring month stay blank on this month's sheet
+    weekdayColumns.forEach((col, i) => {
+      const date = new Date(monday.getTime() + i * DAY_MS);
+      if (col && (date < first || date > last)) row[col.key] = null;
+    });
+    rows.push(row);
+    hints.push(`ISO week ${week}, ${formatIsoDate(monday < first ? first : monday)} to ${formatIsoDate(sunday > last ? last : sunday)}`);
+  }
+  return { rows, fixedKeys: [column], hints };
+};
+
+/**
+ * Computes the rows for a template and month. Axis cells are authoritative:
+ * generated or imported values for these keys are replaced by the skeleton.
+ */
+export const buildRowSkeleton = (template: TableTemplate, targetMonth: string): RowSkeleton => {
+  const axis = getRowAxis(template);
+  switch (axis.kind) {
+    case 'days':
+      return buildDays(template, axis.column, targetMonth);
+    case 'weeks':
+      return buildWeeks(template, axis.column, targetMonth);
+    case 'assets':
+      return {
+        rows: axis.assets.map(asset => ({ [axis.column]: asset })),
+        fixedKeys: [axis.column],
+        hints: axis.assets.map(asset => asset),
+      };
+    default:
+      return {
+        rows: Array.from({ length: Math.max(template.defaultRows, 0) }, () => ({})),
+        fixedKeys: [],
+        hints: [],
+      };
+  }
+};
+
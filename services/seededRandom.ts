@@ -0,0 +1,34 @@
+// Deterministic randomness and hashing for reproducible runs: the same seed gives the same sheet.
+
+// 53-bit string hash (cyrb53) as hex; stable across sessions and browsers
+export const hashString = (text: string, salt = 0): string => {
+  let h1 = 0xdeadbeef ^ salt;
+  let h2 = 0x41c6ce57 ^ salt;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// Seed for one part of a run, e.g. deriveSeed(42, 'P-01-R1-Pool', '2025-03'), so months of a range differ
+export const deriveSeed = (seed: number, ...parts: string[]): number =>
+  parseInt(hashString(parts.join('|'), seed).slice(-8), 16);
+
+// Mulberry32: a drop-in for Math.random returning numbers in [0, 1)
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A fresh seed for the "new seed" button; any non-negative 32-bit integer is valid
+export const createRandomSeed = (): number => Math.floor(Math.random() * 2 ** 31);
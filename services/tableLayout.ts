@@ -0,0 +1,32 @@
+import { Column } from '../types';
+
+// Header layout shared by the spreadsheet and PDF exports so they match the on-screen table
+
+export interface HeaderGroup {
+  name: string; // Empty for columns without a group
+  start: number; // Index of the first column in the group
+  span: number;
+}
+
+// Consecutive columns with the same group form one merged header cell
+export const getHeaderGroups = (columns: Column[]): HeaderGroup[] => {
+  const groups: HeaderGroup[] = [];
+  columns.forEach((col, index) => {
+    const name = col.group || '';
+    const last = groups[groups.length - 1];
+    if (last && last.name === name && name !== '') {
+      last.span++;
+    } else {
+      groups.push({ name, start: index, span: 1 });
+    }
+  });
+  return groups;
+};
+
+export const hasGroupedHeader = (columns: Column[]): boolean => columns.some(col => !!col.group);
+
+// Pixel width from a CSS width such as "80px"; other units are ignored
+export const parseColumnWidth = (width?: string): number | undefined => {
+  const match = width?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/);
+  return match ? Number(match[1]) : undefined;
+};
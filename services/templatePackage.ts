@@ -0,0 +1,337 @@
+import { TableTemplate, Column, ColumnOption, ValidationRule, RowAxis } from '../types';
+
+// Versioned JSON packages for sharing templates between installations.
+// Version history:
+//   1 - initial format: { format, version, exportedAt, templates }
+//       (templates may carry an optional rowAxis; older readers ignore it)
+
+export const TEMPLATE_PACKAGE_FORMAT = 'smartfill-templates';
+export const TEMPLATE_PACKAGE_VERSION = 1;
+
+export interface TemplatePackage {
+  format: typeof TEMPLATE_PACKAGE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  templates: TableTemplate[];
+}
+
+export interface TemplateImportResult {
+  templates: TableTemplate[]; // The merged custom template list
+  added: string[]; // Names of templates that were added
+  replaced: string[]; // Names of existing custom templates that were overwritten
+  renamed: string[]; // Names of templates imported under a new id to avoid a clash
+  skipped: string[]; // Names of templates identical to one already present
+}
+
+const COLUMN_TYPES: Column['type'][] = ['text', 'number', 'date', 'time', 'select', 'status'];
+const OPTION_SEVERITIES = ['ok', 'warning', 'critical'];
+const OPTION_COLORS = ['slate', 'green', 'amber', 'red', 'blue', 'indigo'];
+const ROW_AXIS_KINDS: RowAxis['kind'][] = ['days', 'weeks', 'assets', 'free'];
+const MAX_REPORTED_ISSUES = 12;
+
+export const createTemplatePackage = (templates: TableTemplate[]): TemplatePackage => ({
+  format: TEMPLATE_PACKAGE_FORMAT,
+  version: TEMPLATE_PACKAGE_VERSION,
+  exportedAt: new Date().toISOString(),
+  templates,
+});
+
+export const serializeTemplatePackage = (templates: TableTemplate[]): string =>
+  JSON.stringify(createTemplatePackage(templates), null, 2);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Issues are collected as "path: problem" messages while walking an untrusted package
+const addIssue = (issues: string[], path: string, problem: string) => {
+  issues.push(`${path}: ${problem}`);
+};
+
+const readString = (obj: Record<string, unknown>, key: string, path: string, issues: string[], required: boolean): string | undefined => {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    if (required) addIssue(issues, `${path}.${key}`, 'is required');
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    addIssue(issues, `${path}.${key}`, `expected text, got ${typeof value}`);
+    return undefined;
+  }
+  if (required && !value.trim()) addIssue(issues, `${path}.${key}`, 'must not be empty');
+  return value;
+};
+
+const readNumber = (obj: Record<string, unknown>, key: string, path: string, issues: string[]): number | undefined => {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !isFinite(value)) {
+    addIssue(issues, `${path}.${key}`, 'expected a number');
+    return undefined;
+  }
+  return value;
+};
+
+const readBoolean = (obj: Record<string, unknown>, key: string, path: string, issues: string[]): boolean | undefined => {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    addIssue(issues, `${path}.${key}`, 'expected true or false');
+    return undefined;
+  }
+  return value;
+};
+
+const parseRule = (raw: unknown, path: string, issues: string[]): ValidationRule | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isObject(raw)) {
+    addIssue(issues, path, 'expected an object');
+    return undefined;
+  }
+  const rule: ValidationRule = {
+    min: readNumber(raw, 'min', path, issues),
+    max: readNumber(raw, 'max', path, issues),
+    exclusiveMin: readBoolean(raw, 'exclusiveMin', path, issues),
+    exclusiveMax: readBoolean(raw, 'exclusiveMax', path, issues),
+    pattern: readString(raw, 'pattern', path, issues, false),
+    required: readBoolean(raw, 'required', path, issues),
+  };
+  if (raw.allowedValues !== undefined) {
+    if (Array.isArray(raw.allowedValues) && raw.allowedValues.every(v => typeof v === 'string')) {
+      rule.allowedValues = raw.allowedValues as string[];
+    } else {
+      addIssue(issues, `${path}.allowedValues`, 'expected a list of text values');
+    }
+  }
+  if (rule.pattern !== undefined) {
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      addIssue(issues, `${path}.pattern`, 'is not a valid regular expression');
+    }
+  }
+  if (rule.min !== undefined && rule.max !== undefined && rule.min > rule.max) {
+    addIssue(issues, path, 'min is greater than max');
+  }
+  // Drop absent fields so imported rules match ones created in the designer
+  return Object.fromEntries(Object.entries(rule).filter(([, v]) => v !== undefined)) as ValidationRule;
+};
+
+const parseOption = (raw: unknown, path: string, issues: string[]): ColumnOption | undefined => {
+  if (!isObject(raw)) {
+    addIssue(issues, path, 'expected an object');
+    return undefined;
+  }
+  const value = readString(raw, 'value', path, issues, true);
+  const option: ColumnOption = { value: value ?? '' };
+  const label = readString(raw, 'label', path, issues, false);
+  if (label !== undefined) option.label = label;
+  if (raw.severity !== undefined) {
+    if (OPTION_SEVERITIES.includes(raw.severity as string)) option.severity = raw.severity as ColumnOption['severity'];
+    else addIssue(issues, `${path}.severity`, `expected one of ${OPTION_SEVERITIES.join(', ')}`);
+  }
+  if (raw.color !== undefined) {
+    if (OPTION_COLORS.includes(raw.color as string)) option.color = raw.color as ColumnOption['color'];
+    else addIssue(issues, `${path}.color`, `expected one of ${OPTION_COLORS.join(', ')}`);
+  }
+  return option;
+};
+
+const parseColumn = (raw: unknown, path: string, issues: string[]): Column | undefined => {
+  if (!isObject(raw)) {
+    addIssue(issues, path, 'expected an object');
+    return undefined;
+  }
+  const column: Column = {
+    key: readString(raw, 'key', path, issues, true) ?? '',
+    label: readString(raw, 'label', path, issues, true) ?? '',
+    type: 'text',
+  };
+  if (COLUMN_TYPES.includes(raw.type as Column['type'])) {
+    column.type = raw.type as Column['type'];
+  } else {
+    addIssue(issues, `${path}.type`, `expected one of ${COLUMN_TYPES.join(', ')}`);
+  }
+  for (const key of ['subLabel', 'width', 'group'] as const) {
+    const value = readString(raw, key, path, issues, false);
+    if (value !== undefined) column[key] = value;
+  }
+  const validation = parseRule(raw.validation, `${path}.validation`, issues);
+  if (validation) column.validation = validation;
+  if (raw.options !== undefined) {
+    if (Array.isArray(raw.options)) {
+      column.options = raw.options
+        .map((opt, i) => parseOption(opt, `${path}.options[${i}]`, issues))
+        .filter((opt): opt is ColumnOption => !!opt);
+    } else {
+      addIssue(issues, `${path}.options`, 'expected a list');
+    }
+  }
+  return column;
+};
+
+const parseRowAxis = (raw: unknown, path: string, issues: string[], columnKeys: Set<string>): RowAxis | undefined => {
+  if (!isObject(raw)) {
+    addIssue(issues, path, 'expected an object');
+    return undefined;
+  }
+  const kind = raw.kind as RowAxis['kind'];
+  if (!ROW_AXIS_KINDS.includes(kind)) {
+    addIssue(issues, `${path}.kind`, `expected one of ${ROW_AXIS_KINDS.join(', ')}`);
+    return undefined;
+  }
+  if (kind === 'free') return { kind };
+
+  const column = readString(raw, 'column', path, issues, true) ?? '';
+  if (column && !columnKeys.has(column)) addIssue(issues, `${path}.column`, `no column with key "${column}"`);
+  if (kind !== 'assets') return { kind, column };
+
+  if (!Array.isArray(raw.assets) || raw.assets.length === 0 || raw.assets.some(a => typeof a !== 'string')) {
+    addIssue(issues, `${path}.assets`, 'must be a non-empty list of text');
+    return undefined;
+  }
+  return { kind, column, assets: raw.assets as string[] };
+};
+
+const parseTemplate = (raw: unknown, path: string, issues: string[]): TableTemplate | undefined => {
+  if (!isObject(raw)) {
+    addIssue(issues, path, 'expected an object');
+    return undefined;
+  }
+  const template: TableTemplate = {
+    id: readString(raw, 'id', path, issues, true) ?? '',
+    name: readString(raw, 'name', path, issues, true) ?? '',
+    description: readString(raw, 'description', path, issues, false) ?? '',
+    context: readString(raw, 'context', path, issues, false) ?? '',
+    aiRules: readString(raw, 'aiRules', path, issues, false) ?? '',
+    defaultRows: readNumber(raw, 'defaultRows', path, issues) ?? 10,
+    columns: [],
+  };
+  if (!Number.isInteger(template.defaultRows) || template.defaultRows < 1) {
+    addIssue(issues, `${path}.defaultRows`, 'must be a positive whole number');
+  }
+
+  if (!Array.isArray(raw.columns) || raw.columns.length === 0) {
+    addIssue(issues, `${path}.columns`, 'must be a non-empty list');
+    return template;
+  }
+  const keys = new Set<string>();
+  raw.columns.forEach((rawCol, i) => {
+    const column = parseColumn(rawCol, `${path}.columns[${i}]`, issues);
+    if (!column) return;
+    if (column.key && keys.has(column.key)) addIssue(issues, `${path}.columns[${i}].key`, `duplicate key "${column.key}"`);
+    keys.add(column.key);
+    template.columns.push(column);
+  });
+  if (raw.rowAxis !== undefined) {
+    const rowAxis = parseRowAxis(raw.rowAxis, `${path}.rowAxis`, issues, keys);
+    if (rowAxis) template.rowAxis = rowAxis;
+  }
+  return template;
+};
+
+const formatIssues = (issues: string[]) => {
+  const shown = issues.slice(0, MAX_REPORTED_ISSUES).map(issue => `• ${issue}`);
+  if (issues.length > MAX_REPORTED_ISSUES) shown.push(`…and ${issues.length - MAX_REPORTED_ISSUES} more`);
+  return shown.join('\n');
+};
+
+/**
+ * Parses and validates a template package. Throws an Error whose message lists
+ * every problem found (with JSON paths) if the file is not a usable package.
+ */
+export const parseTemplatePackage = (text: string): TableTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.format !== TEMPLATE_PACKAGE_FORMAT) {
+    throw new Error(`The file is not a SmartFill template package (expected "format": "${TEMPLATE_PACKAGE_FORMAT}").`);
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('The template package has no valid version number.');
+  }
+  if (data.version > TEMPLATE_PACKAGE_VERSION) {
+    throw new Error(`The template package was created by a newer version of SmartFill (package version ${data.version}, supported up to ${TEMPLATE_PACKAGE_VERSION}).`);
+  }
+  if (!Array.isArray(data.templates) || data.templates.length === 0) {
+    throw new Error('The template package does not contain any templates.');
+  }
+
+  const issues: string[] = [];
+  const ids = new Set<string>();
+  const templates: TableTemplate[] = [];
+  data.templates.forEach((raw, i) => {
+    const template = parseTemplate(raw, `templates[${i}]`, issues);
+    if (!template) return;
+    if (template.id && ids.has(template.id)) addIssue(issues, `templates[${i}].id`, `duplicate id "${template.id}"`);
+    ids.add(template.id);
+    templates.push(template);
+  });
+
+  if (issues.length > 0) {
+    throw new Error(`The template package is invalid:\n${formatIssues(issues)}`);
+  }
+  return templates;
+};
+
+// Key-order independent JSON so a re-imported template compares equal to its source
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sameTemplate = (a: TableTemplate, b: TableTemplate) => canonicalJson(a) === canonicalJson(b);
+
+/**
+ * Merges imported templates into the custom template list.
+ * - Identical copies of an existing template are skipped.
+ * - Clashes with built-in templates are always imported under a new id.
+ * - Clashes with custom templates either replace them or are imported under a new id.
+ */
+export const mergeImportedTemplates = (
+  imported: TableTemplate[],
+  customTemplates: TableTemplate[],
+  builtInTemplates: TableTemplate[],
+  replaceExisting: boolean
+): TemplateImportResult => {
+  const result: TemplateImportResult = { templates: [...customTemplates], added: [], replaced: [], renamed: [], skipped: [] };
+  const builtInIds = new Set(builtInTemplates.map(t => t.id));
+  const takenIds = () => new Set([...builtInIds, ...result.templates.map(t => t.id)]);
+
+  imported.forEach((template, i) => {
+    const existing = [...builtInTemplates, ...result.templates].find(t => t.id === template.id);
+    if (!existing) {
+      result.templates.push(template);
+      result.added.push(template.name);
+    } else if (sameTemplate(existing, template)) {
+      result.skipped.push(template.name);
+    } else if (replaceExisting && !builtInIds.has(template.id)) {
+      result.templates = result.templates.map(t => (t.id === template.id ? template : t));
+      result.replaced.push(template.name);
+    } else {
+      const taken = takenIds();
+      let id = `custom-${Date.now()}-${i}`;
+      for (let n = 2; taken.has(id); n++) id = `custom-${Date.now()}-${i}-${n}`;
+      result.templates.push({ ...template, id });
+      result.renamed.push(template.name);
+    }
+  });
+  return result;
+};
+
+// Imported templates whose id is already used by a different custom template
+export const findConflictingTemplates = (imported: TableTemplate[], customTemplates: TableTemplate[]): TableTemplate[] =>
+  imported.filter(t => {
+    const existing = customTemplates.find(c => c.id === t.id);
+    return existing && !sameTemplate(existing, t);
+  });
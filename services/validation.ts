@@ -0,0 +1,163 @@
+import { Column, ColumnOption, ValidationRule } from '../types';
+
+export type CellStatus = 'neutral' | 'success' | 'warning' | 'danger';
+
+export interface CellCheck {
+  status: CellStatus;
+  message?: string;
+}
+
+export const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || value === '';
+
+const formatLowerBound = (rule: ValidationRule) => `${rule.exclusiveMin ? '>' : '≥'} ${rule.min}`;
+const formatUpperBound = (rule: ValidationRule) => `${rule.exclusiveMax ? '<' : '≤'} ${rule.max}`;
+
+const describeBounds = (rule: ValidationRule): string => {
+  const hasMin = rule.min !== undefined;
+  const hasMax = rule.max !== undefined;
+  if (hasMin && hasMax && !rule.exclusiveMin && !rule.exclusiveMax) {
+    return `${rule.min} to ${rule.max}`;
+  }
+  return [hasMin ? formatLowerBound(rule) : '', hasMax ? formatUpperBound(rule) : ''].filter(Boolean).join(' and ');
+};
+
+// Human readable summary of a rule, shared by tooltips and AI prompts
+// e.g. "1 to 3", "≤ 1", "> 0.5", "one of: Y, N"
+export const describeRule = (rule?: ValidationRule): string => {
+  if (!rule) return '';
+  const parts: string[] = [];
+
+  const bounds = describeBounds(rule);
+  if (bounds) parts.push(bounds);
+  if (rule.allowedValues && rule.allowedValues.length > 0) {
+    parts.push(`one of: ${rule.allowedValues.join(', ')}`);
+  }
+  if (rule.pattern) parts.push(`matches /${rule.pattern}/`);
+  if (rule.required) parts.push('required');
+
+  return parts.join(', ');
+};
+
+const countDecimals = (n: number) => {
+  const str = String(n);
+  return str.includes('.') ? str.split('.')[1].length : 0;
+};
+
+// Decimal places a numeric rule is read to: those of its bounds, and at least one for narrow ranges such as pH
+export const getRuleDecimals = (rule: ValidationRule): number => {
+  const low = rule.min ?? (rule.max !== undefined ? Math.min(0, rule.max) : 0);
+  const high = rule.max ?? (rule.min !== undefined ? Math.max(rule.min * 2, rule.min + 2) : 100);
+  return Math.max(countDecimals(low), countDecimals(high), high - low <= 10 ? 1 : 0);
+};
+
+// Choices for a column: explicit options, or allowed values of its rule as plain options
+export const getColumnOptions = (col: Column): ColumnOption[] => {
+  if (col.options && col.options.length > 0) return col.options;
+  return (col.validation?.allowedValues || []).map(value => ({ value }));
+};
+
+export const findOption = (col: Column, value: unknown): ColumnOption | undefined => {
+  if (isEmptyValue(value)) return undefined;
+  const strVal = String(value).trim().toLowerCase();
+  return getColumnOptions(col).find(o => o.value.toLowerCase() === strVal || o.label?.toLowerCase() === strVal);
+};
+
+const describeOptions = (options: ColumnOption[]) =>
+  options.map(o => `${o.value}${o.label && o.label !== o.value ? ` (${o.label})` : ''}${o.severity && o.severity !== 'ok' ? ` [${o.severity}]` : ''}`).join(', ');
+
+// Describe a column for AI prompts: label, display hint, group, options and its machine rule
+export const describeColumn = (col: Column): string => {
+  const rule = describeRule(col.validation);
+  const options = col.options && col.options.length > 0 ? describeOptions(col.options) : '';
+  return `${col.label}${col.subLabel ? ` (${col.subLabel})` : ''}. Group: ${col.group || 'None'}${options ? `. Options: ${options}` : ''}${rule ? `. Rule: ${rule}` : ''}`;
+};
+
+export const isNumberInRange = (value: number, rule: ValidationRule): boolean => {
+  if (rule.min !== undefined && (rule.exclusiveMin ? value <= rule.min : value < rule.min)) return false;
+  if (rule.max !== undefined && (rule.exclusiveMax ? value >= rule.max : value > rule.max)) return false;
+  return true;
+};
+
+// Checks a value against a rule alone; null when the rule has nothing to check
+export const checkRule = (value: unknown, rule: ValidationRule): CellCheck | null => {
+  if (isEmptyValue(value)) {
+    return rule.required ? { status: 'danger', message: 'Value is required' } : null;
+  }
+
+  const strVal = String(value).trim();
+  let checked = false;
+
+  if (rule.min !== undefined || rule.max !== undefined) {
+    const numVal = typeof value === 'number' ? value : parseFloat(strVal);
+    if (isNaN(numVal)) {
+      return { status: 'danger', message: 'Value must be a number' };
+    }
+    if (!isNumberInRange(numVal, rule)) {
+      return { status: 'danger', message: `Out of range: expected ${describeBounds(rule)}` };
+    }
+    checked = true;
+  }
+
+  if (rule.allowedValues && rule.allowedValues.length > 0) {
+    const allowed = rule.allowedValues.some(v => v.toLowerCase() === strVal.toLowerCase());
+    if (!allowed) {
+      return { status: 'danger', message: `Value must be one of: ${rule.allowedValues.join(', ')}` };
+    }
+    checked = true;
+  }
+
+  if (rule.pattern) {
+    try {
+      if (!new RegExp(`^(?:${rule.pattern})$`).test(strVal)) {
+        return { status: 'danger', message: 'Value does not match the expected format' };
+      }
+      checked = true;
+    } catch {
+      console.warn(`Invalid validation pattern: ${rule.pattern}`);
+    }
+  }
+
+  return checked ? { status: 'success', message: 'Value within compliant range' } : null;
+};
+
+const checkOptions = (value: unknown, col: Column): CellCheck | null => {
+  if (!col.options || col.options.length === 0 || isEmptyValue(value)) return null;
+  const option = findOption(col, value);
+  if (!option) {
+    return { status: 'danger', message: `Value must be one of: ${col.options.map(o => o.value).join(', ')}` };
+  }
+  if (option.severity === 'critical') return { status: 'danger', message: `${col.label}: ${option.label || option.value}` };
+  if (option.severity === 'warning') return { status: 'warning', message: `${col.label}: ${option.label || option.value}` };
+  return option.severity === 'ok' ? { status: 'success' } : { status: 'neutral' };
+};
+
+export const getCellStatus = (value: unknown, col: Column): CellCheck => {
+  const ruleResult = col.validation ? checkRule(value, col.validation) : null;
+  if (ruleResult?.status === 'danger') return ruleResult;
+
+  const optionResult = checkOptions(value, col);
+  if (optionResult) return optionResult;
+  if (ruleResult) return ruleResult;
+
+  if (isEmptyValue(value)) return { status: 'neutral' };
+
+  // Basic heuristic highlighting for free text without a rule
+  if (typeof value === 'string') {
+    const lower = value.toLowerCase();
+    if (lower.includes('fail') || lower.includes('error')) return { status: 'danger', message: 'Error detected in value' };
+    if (lower.includes('high')) return { status: 'warning', message: 'Value flagged as high' };
+  }
+  return { status: 'neutral' };
+};
+
+// Convert raw editor input into the value stored for a column
+export const coerceCellValue = (value: string, col?: Column): string | number | null => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (col?.type === 'number') {
+    const numVal = Number(trimmed);
+    return isNaN(numVal) ? trimmed : numVal;
+  }
+  return trimmed;
+};
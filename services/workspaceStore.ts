@@ -0,0 +1,220 @@
+import { TableTemplate, SimulationConfig, RowData, RowProvenance, DeletedRow, MaintenanceDocument, PdfExportOptions, StaffMember, ScenarioLibrary, ScriptedIncident } from '../types';
+
+// IndexedDB-backed workspace so sheets, custom templates, settings and documents survive reloads.
+// Sheets are keyed by template id and target month.
+
+const DB_NAME = 'smartfill-workspace';
+const DB_VERSION = 3;
+const SHEETS_STORE = 'sheets';
+const TEMPLATES_STORE = 'templates';
+const KV_STORE = 'kv';
+const RESPONSES_STORE = 'responses';
+// Recorded responses kept for seeded runs; the oldest are evicted beyond this
+export const MAX_CACHED_RESPONSES = 200;
+
+export interface SavedSheet {
+  id: string; // `${templateId}::${targetMonth}`
+  templateId: string;
+  templateName: string;
+  targetMonth: string;
+  rows: RowData[];
+  provenance?: RowProvenance[]; // Parallel to rows; missing for sheets saved before provenance was tracked
+  deletedRows?: DeletedRow[]; // Missing for sheets saved before row deletions were logged
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SHEETS_STORE)) {
+          const sheets = db.createObjectStore(SHEETS_STORE, { keyPath: 'id' });
+          sheets.createIndex('templateId', 'templateId');
+        }
+        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+          db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(KV_STORE)) {
+          db.createObjectStore(KV_STORE);
+        }
+        const responses = db.objectStoreNames.contains(RESPONSES_STORE)
+          ? request.transaction!.objectStore(RESPONSES_STORE)
+          : db.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+        if (!responses.indexNames.contains('createdAt')) {
+          responses.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    let result: T | undefined;
+    if (request) {
+      promisify(request).then(value => { result = value; }, reject);
+    }
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getSheetKey = (templateId: string, targetMonth: string) => `${templateId}::${targetMonth}`;
+
+// --- Sheets ---
+
+export const loadSheet = async (templateId: string, targetMonth: string): Promise<SavedSheet | undefined> =>
+  runTransaction<SavedSheet>(SHEETS_STORE, 'readonly', store => store.get(getSheetKey(templateId, targetMonth)));
+
+export const saveSheet = async (
+  template: TableTemplate,
+  targetMonth: string,
+  rows: RowData[],
+  provenance: RowProvenance[] = [],
+  deletedRows: DeletedRow[] = []
+): Promise<void> => {
+  const id = getSheetKey(template.id, targetMonth);
+  if (rows.length === 0) {
+    // An emptied sheet is not worth reopening
+    await runTransaction(SHEETS_STORE, 'readwrite', store => store.delete(id));
+    return;
+  }
+  const sheet: SavedSheet = {
+    id,
+    templateId: template.id,
+    templateName: template.name,
+    targetMonth,
+    rows,
+    provenance,
+    deletedRows,
+    updatedAt: Date.now(),
+  };
+  await runTransaction(SHEETS_STORE, 'readwrite', store => store.put(sheet));
+};
+
+export const deleteSheetsForTemplate = async (templateId: string): Promise<void> => {
+  await runTransaction(SHEETS_STORE, 'readwrite', store => {
+    const cursorRequest = store.index('templateId').openCursor(IDBKeyRange.only(templateId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+  });
+};
+
+export const listRecentSheets = async (limit = 8): Promise<SavedSheet[]> => {
+  const sheets = await runTransaction<SavedSheet[]>(SHEETS_STORE, 'readonly', store => store.getAll());
+  return (sheets || []).sort((a, b) => b.updatedAt - a.updatedAt).slice(0, limit);
+};
+
+// --- Custom templates ---
+
+export const loadCustomTemplates = async (): Promise<TableTemplate[]> =>
+  (await runTransaction<TableTemplate[]>(TEMPLATES_STORE, 'readonly', store => store.getAll())) || [];
+
+export const saveCustomTemplates = async (templates: TableTemplate[]): Promise<void> => {
+  await runTransaction(TEMPLATES_STORE, 'readwrite', store => {
+    store.clear();
+    templates.forEach(t => store.put(t));
+  });
+};
+
+// --- Model response cache ---
+
+export interface CachedResponse {
+  key: string; // `${templateId}::${config hash}::${request hash}`
+  text: string; // Raw response text, exactly as the model returned it
+  provider: string;
+  createdAt: number;
+}
+
+export const loadCachedResponse = async (key: string): Promise<CachedResponse | undefined> =>
+  runTransaction<CachedResponse>(RESPONSES_STORE, 'readonly', store => store.get(key));
+
+export const saveCachedResponse = async (response: CachedResponse): Promise<void> => {
+  await runTransaction(RESPONSES_STORE, 'readwrite', store => {
+    store.put(response);
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - MAX_CACHED_RESPONSES;
+      if (excess <= 0) return;
+      // Oldest first, so the response just saved stays
+      const cursorRequest = store.index('createdAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor && excess-- > 0) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    };
+  });
+};
+
+export const countCachedResponses = async (): Promise<number> =>
+  (await runTransaction<number>(RESPONSES_STORE, 'readonly', store => store.count())) || 0;
+
+export const clearResponseCache = async (): Promise<void> => {
+  await runTransaction(RESPONSES_STORE, 'readwrite', store => store.clear());
+};
+
+// --- Key/value settings ---
+
+const loadValue = async <T>(key: string): Promise<T | undefined> =>
+  runTransaction<T>(KV_STORE, 'readonly', store => store.get(key));
+
+const saveValue = async (key: string, value: unknown): Promise<void> => {
+  await runTransaction(KV_STORE, 'readwrite', store => store.put(value, key));
+};
+
+export const loadConfig = () => loadValue<SimulationConfig>('config');
+export const saveConfig = (config: SimulationConfig) => saveValue('config', config);
+
+export const loadActiveTemplateId = () => loadValue<string>('activeTemplateId');
+export const saveActiveTemplateId = (id: string) => saveValue('activeTemplateId', id);
+
+export const loadDocuments = () => loadValue<MaintenanceDocument[]>('documents');
+export const saveDocuments = (documents: MaintenanceDocument[]) => saveValue('documents', documents);
+
+export const loadEditorName = () => loadValue<string>('editorName');
+export const saveEditorName = (name: string) => saveValue('editorName', name);
+
+export const loadRoster = () => loadValue<StaffMember[]>('roster');
+export const saveRoster = (roster: StaffMember[]) => saveValue('roster', roster);
+
+export const loadScenarios = () => loadValue<ScenarioLibrary>('scenarios');
+export const saveScenarios = (scenarios: ScenarioLibrary) => saveValue('scenarios', scenarios);
+
+// Scripted incidents by template id
+export const loadIncidents = () => loadValue<Record<string, ScriptedIncident[]>>('incidents');
+export const saveIncidents = (incidents: Record<string, ScriptedIncident[]>) => saveValue('incidents', incidents);
+
+export const loadPdfExportOptions = () => loadValue<PdfExportOptions>('pdfExportOptions');
+export const savePdfExportOptions = (options: PdfExportOptions) => saveValue('pdfExportOptions', options);
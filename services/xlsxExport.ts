@@ -0,0 +1,215 @@
+import { Workbook, Worksheet, Cell } from 'exceljs';
+import { TableTemplate, RowData, RowProvenance, DeletedRow } from '../types';
+import { getCellStatus, isEmptyValue, CellStatus } from './validation';
+import { getHeaderGroups, hasGroupedHeader, parseColumnWidth } from './tableLayout';
+import { listAuditEntries, SOURCE_LABELS, CONFIDENCE_LABELS } from './provenance';
+
+// Excel export that mirrors the paper form: title, merged group header, sub-labels,
+// compliance colours and a frozen header.
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const STATUS_STYLES: Partial<Record<CellStatus, { fill: string; font: string; bold?: boolean }>> = {
+  danger: { fill: 'FFFEE2E2', font: 'FFB91C1C', bold: true },
+  warning: { fill: 'FFFEF3C7', font: 'FFB45309' },
+  success: { fill: 'FFD1FAE5', font: 'FF047857' },
+};
+
+const HEADER_FILL = 'FFF1F5F9';
+const BORDER_COLOR = 'FFCBD5E1';
+const PX_PER_CHAR = 7; // Approximate width of one Excel character unit in pixels
+const MIN_CHARS = 6;
+const MAX_SHEET_NAME = 31;
+
+const thinBorder = {
+  top: { style: 'thin' as const, color: { argb: BORDER_COLOR } },
+  left: { style: 'thin' as const, color: { argb: BORDER_COLOR } },
+  bottom: { style: 'thin' as const, color: { argb: BORDER_COLOR } },
+  right: { style: 'thin' as const, color: { argb: BORDER_COLOR } },
+};
+
+const styleHeaderCell = (cell: Cell) => {
+  cell.font = { bold: true };
+  cell.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+  cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  cell.border = thinBorder;
+};
+
+// Excel sheet names are limited to 31 characters and may not contain []:*?/\
+export const toSheetName = (name: string): string =>
+  name.replace(/[\[\]:*?/\\]/g, '-').slice(0, MAX_SHEET_NAME).trim() || 'Sheet';
+
+export interface TableSheetOptions {
+  sheetName: string;
+  title?: string; // Written above the header, e.g. "P-01-R1: Pool Parameters — 2025-06"
+}
+
+/**
+ * Adds one worksheet with the template's header layout and the given rows.
+ * Returns the worksheet so callers can append extra content.
+ */
+export const addTableWorksheet = (
+  workbook: Workbook,
+  template: TableTemplate,
+  rows: RowData[],
+  options: TableSheetOptions
+): Worksheet => {
+  const { columns } = template;
+  const columnCount = Math.max(columns.length, 1);
+  const grouped = hasGroupedHeader(columns);
+
+  const sheet = workbook.addWorksheet(toSheetName(options.sheetName));
+  sheet.columns = columns.map(col => {
+    const px = parseColumnWidth(col.width);
+    const labelChars = Math.max(col.label.length, col.subLabel?.length ?? 0) + 2;
+    return { key: col.key, width: Math.max(MIN_CHARS, px ? Math.round(px / PX_PER_CHAR) : labelChars) };
+  });
+
+  let rowNumber = 1;
+  if (options.title) {
+    sheet.mergeCells(rowNumber, 1, rowNumber, columnCount);
+    const titleCell = sheet.getCell(rowNumber, 1);
+    titleCell.value = options.title;
+    titleCell.font = { bold: true, size: 14 };
+    titleCell.alignment = { vertical: 'middle' };
+    sheet.getRow(rowNumber).height = 24;
+    rowNumber++;
+  }
+
+  // Group row: ungrouped columns span both header rows, like the on-screen table
+  const labelRowNumber = grouped ? rowNumber + 1 : rowNumber;
+  if (grouped) {
+    getHeaderGroups(columns).forEach(group => {
+      const first = group.start + 1;
+      const last = group.start + group.span;
+      if (group.name) {
+        if (group.span > 1) sheet.mergeCells(rowNumber, first, rowNumber, last);
+        sheet.getCell(rowNumber, first).value = group.name;
+      } else {
+        sheet.mergeCells(rowNumber, first, labelRowNumber, first);
+      }
+      for (let c = first; c <= last; c++) styleHeaderCell(sheet.getCell(rowNumber, c));
+    });
+  }
+
+  columns.forEach((col, i) => {
+    const cell = sheet.getCell(labelRowNumber, i + 1);
+    if (grouped && !col.group) {
+      // Top-left cell of the vertical merge holds the label
+      const top = sheet.getCell(labelRowNumber - 1, i + 1);
+      top.value = col.subLabel ? `${col.label}\n${col.subLabel}` : col.label;
+    } else {
+      cell.value = col.subLabel ? `${col.label}\n${col.subLabel}` : col.label;
+    }
+    styleHeaderCell(cell);
+  });
+  const hasSubLabels = columns.some(col => col.subLabel);
+  sheet.getRow(labelRowNumber).height = hasSubLabels ? 30 : 18;
+
+  rows.forEach((row, r) => {
+    const excelRow = sheet.getRow(labelRowNumber + 1 + r);
+    columns.forEach((col, c) => {
+      const value = row[col.key];
+      const cell = excelRow.getCell(c + 1);
+      cell.value = isEmptyValue(value) ? null : value;
+      cell.border = thinBorder;
+      cell.alignment = { horizontal: col.type === 'text' ? 'left' : 'center', vertical: 'middle' };
+
+      const style = isEmptyValue(value) ? undefined : STATUS_STYLES[getCellStatus(value, col).status];
+      if (style) {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: style.fill } };
+        cell.font = { color: { argb: style.font }, bold: style.bold };
+      }
+    });
+  });
+
+  sheet.views = [{ state: 'frozen', xSplit: 0, ySplit: labelRowNumber }];
+  return sheet;
+};
+
+// Change log of every cell with recorded provenance and every deleted row, oldest change first
+export const addAuditWorksheet = (
+  workbook: Workbook,
+  template: TableTemplate,
+  rows: RowData[],
+  provenance: RowProvenance[],
+  sheetName: string,
+  deletedRows: DeletedRow[] = []
+): Worksheet => {
+  const sheet = workbook.addWorksheet(toSheetName(sheetName));
+  sheet.columns = [
+    { header: 'Row', key: 'row', width: 6 },
+    { header: 'Column', key: 'column', width: 24 },
+    { header: 'Value', key: 'value', width: 18 },
+    { header: 'Previous Value', key: 'previous', width: 18 },
+    { header: 'Source', key: 'source', width: 18 },
+    { header: 'Editor', key: 'editor', width: 18 },
+    { header: 'Changed At', key: 'at', width: 20 },
+    { header: 'To Verify', key: 'confidence', width: 22 },
+  ];
+  sheet.getRow(1).eachCell(styleHeaderCell);
+
+  listAuditEntries(template.columns, rows, provenance, deletedRows).forEach(entry => {
+    const row = sheet.addRow({
+      row: entry.row,
+      column: entry.column,
+      value: entry.value,
+      previous: entry.previous,
+      source: SOURCE_LABELS[entry.source],
+      editor: entry.editor || '',
+      at: new Date(entry.at),
+      confidence: entry.confidence ? CONFIDENCE_LABELS[entry.confidence] : '',
+    });
+    row.eachCell({ includeEmpty: true }, cell => { cell.border = thinBorder; });
+    row.getCell('at').numFmt = 'yyyy-mm-dd hh:mm';
+  });
+
+  sheet.views = [{ state: 'frozen', xSplit: 0, ySplit: 1 }];
+  return sheet;
+};
+
+export const workbookToBlob = async (workbook: Workbook): Promise<Blob> => {
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME });
+};
+
+// With `provenance`, an audit sheet listing every recorded cell change and row deletion follows the table
+export const exportTableToXlsx = async (
+  template: TableTemplate,
+  rows: RowData[],
+  targetMonth: string,
+  provenance?: RowProvenance[],
+  deletedRows: DeletedRow[] = []
+): Promise<Blob> => {
+  const workbook = new Workbook();
+  workbook.creator = 'SmartFill';
+  workbook.created = new Date();
+  addTableWorksheet(workbook, template, rows, {
+    sheetName: targetMonth,
+    title: `${template.name} — ${targetMonth}`,
+  });
+  if (provenance) addAuditWorksheet(workbook, template, rows, provenance, `Audit ${targetMonth}`, deletedRows);
+  return workbookToBlob(workbook);
+};
+
+export interface MonthSheet {
+  month: string; // YYYY-MM
+  rows: RowData[];
+  provenance?: RowProvenance[]; // Set when the export should include an audit sheet
+  deletedRows?: DeletedRow[];
+}
+
+// One worksheet per month, in order, for range runs
+export const exportMonthsToXlsx = async (template: TableTemplate, sheets: MonthSheet[]): Promise<Blob> => {
+  const workbook = new Workbook();
+  workbook.creator = 'SmartFill';
+  workbook.created = new Date();
+  sheets.forEach(sheet => {
+    addTableWorksheet(workbook, template, sheet.rows, {
+      sheetName: sheet.month,
+      title: `${template.name} — ${sheet.month}`,
+    });
+    if (sheet.provenance) addAuditWorksheet(workbook, template, sheet.rows, sheet.provenance, `Audit ${sheet.month}`, sheet.deletedRows);
+  });
+  return workbookToBlob(workbook);
+};
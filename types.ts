@@ -1,13 +1,40 @@
 
+export interface ValidationRule {
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean; // Treat min as a strict bound (value > min)
+  exclusiveMax?: boolean; // Treat max as a strict bound (value < max)
+  allowedValues?: string[]; // The first entry is treated as the normal/expected reading
+  pattern?: string; // Regular expression source, matched against the whole value
+  required?: boolean;
+}
+
+export interface ColumnOption {
+  value: string; // Stored cell value, e.g. "Y"
+  label?: string; // Display text, e.g. "Yes"
+  severity?: 'ok' | 'warning' | 'critical'; // Drives compliance highlighting for 'status' columns
+  color?: 'slate' | 'green' | 'amber' | 'red' | 'blue' | 'indigo'; // Badge colour; defaults from severity
+}
+
 export interface Column {
   key: string;
   label: string;
-  subLabel?: string; // For things like units (ppm) or ranges (7.2-7.8)
+  subLabel?: string; // Display-only hint for units (ppm) or ranges (7.2-7.8)
   type: 'text' | 'number' | 'date' | 'time' | 'select' | 'status';
   width?: string;
   group?: string; // For grouped headers (e.g., "9:00 AM")
+  validation?: ValidationRule; // Compliance rule used for highlighting, AI schemas and AutoFix
+  options?: ColumnOption[]; // Choices for 'select' and 'status' columns; the first is the normal value
 }
 
+// How a template's rows are laid out before any values are filled in.
+// Axis cells are computed locally; generators only fill the remaining columns.
+export type RowAxis =
+  | { kind: 'days'; column: string } // One row per calendar day of the target month; column receives the day number
+  | { kind: 'weeks'; column: string } // One row per ISO week overlapping the target month
+  | { kind: 'assets'; column: string; assets: string[] } // One row per listed asset or location
+  | { kind: 'free' }; // defaultRows rows with no computed column
+
 export interface TableTemplate {
   id: string;
   name: string;
@@ -16,6 +43,7 @@ export interface TableTemplate {
   columns: Column[];
   defaultRows: number;
   aiRules: string; // Specific constraints for the AI prompt
+  rowAxis?: RowAxis; // Defaults to days of the month for sheets with a numeric day/date column, else free rows
 }
 
 export interface SimulationConfig {
@@ -23,10 +51,148 @@ export interface SimulationConfig {
   anomalyChance: number; // 0 to 100
   mode: 'compliant' | 'realistic' | 'chaos';
   targetMonth: string; // Format: YYYY-MM
+  endMonth?: string; // Inclusive last month of a range run (YYYY-MM); unset for a single month
+  engine: 'ai' | 'offline'; // 'offline' uses the local rule-based generator
+  keepExisting?: boolean; // Fill only empty cells of the current sheet, keeping logged values
+  seed?: number; // Same seed and settings reproduce the same sheet; unset for a fresh random run
+  replay?: boolean; // AI runs answer only from recorded responses of seeded runs and never call the API
+}
+
+// Which cells a run may write: the whole sheet, only empty cells, or whole selected rows
+export type FillScope =
+  | { kind: 'all' }
+  | { kind: 'blanks' }
+  | { kind: 'rows'; rowIndices: number[] };
+
+// Extra inputs shared by the AI and offline generators
+export interface GenerationOptions {
+  scope?: FillScope; // Defaults to the whole sheet; other scopes keep existing values as fixed context
+  previousRows?: RowData[]; // Rows of the preceding month, so readings continue smoothly
+  onQualityReport?: (report: QualityReport) => void; // Called once with the validation outcome of AI output
+  onRows?: (rowsSoFar: RowData[]) => void; // Streams rows as they complete, before the final result
+  signal?: AbortSignal; // Cancels the run; the rejection carries the rows completed so far
+  roster?: StaffMember[]; // Person columns are filled only with staff on shift for the row
+  scenarios?: ScenarioLibrary; // Corrective actions for anomalies; defaults to ANOMALY_SCENARIOS
+  incidents?: ScriptedIncident[]; // Written into the sheet on their day, with recovery readings after
+}
+
+// File analysis either reads the table structure and invents data, or transcribes the values as written
+export type AnalysisMode = 'generate' | 'extract';
+
+export interface AnalysisOptions extends GenerationOptions {
+  mode?: AnalysisMode; // Defaults to 'generate'
+}
+
+// How sure the transcription of a scanned cell is; unflagged cells were read clearly
+export type CellConfidence = 'low' | 'illegible';
+
+// A scanned cell that needs checking against the original, by row index and column key
+export interface ConfidenceFlag {
+  row: number;
+  key: string;
+  confidence: CellConfidence;
+  note?: string; // What made the cell hard to read, e.g. "smudged digit"
+}
+
+export interface AnomalyScenario {
+  condition: string; // e.g. "pH > 7.8"; "<subject> > <value>" lets the offline generator match it to columns
+  outcome: string;
+  corrective_action: string;
+}
+
+// Scenarios by domain, then by scenario id (the shape of ANOMALY_SCENARIOS)
+export type ScenarioLibrary = Record<string, Record<string, AnomalyScenario>>;
+
+// A planned event on a given day, e.g. a fecal accident followed by superchlorination
+export interface ScriptedIncident {
+  id: string;
+  day: number; // Day of the month
+  month?: string; // YYYY-MM; applies to every generated month when unset
+  description: string; // What happened, written to the note column
+  correctiveAction: string;
+  readings: Record<string, string | number>; // Values on the incident day, by column key
+  followUpDays: number; // Following days on which numeric readings return gradually to normal
+  followUpNote: string; // Note for follow-up days, e.g. "Pool closed 24h, superchlorination"
+}
+
+// What response validation found and repaired in AI output before it reached the table
+export interface QualityReport {
+  rowsExpected: number;
+  rowsReceived: number; // Rows in the accepted responses, before trimming or padding
+  coercedCells: number; // Values converted to the column type, e.g. "7.4 ppm" -> 7.4
+  clearedCells: number; // Values that could not be converted and were left empty
+  missingRequired: number; // Required cells still empty
+  outOfRange: number; // Values that break their column rule
+  repairedResponses: number; // Truncated or wrapped JSON that was salvaged
+  retriedBatches: number; // Batches re-requested because the response was unusable
+  paddedRows: number; // Blank rows added because the model returned too few
+  droppedRows: number; // Surplus rows discarded
+}
+
+// Progress of one month within a range run
+export interface MonthProgress {
+  month: string; // YYYY-MM
+  status: 'pending' | 'running' | 'done' | 'failed';
+  rowCount?: number;
+  error?: string;
+}
+
+export interface LlmSettings {
+  provider: 'gemini' | 'openai-compatible';
+  model: string;
+  baseUrl: string; // Root of an OpenAI-compatible API, e.g. http://localhost:8000/v1
+  apiKey: string; // Optional override; Gemini falls back to the build-time key
+}
+
+// One person on the staff roster; person columns may only name rostered staff
+export interface StaffMember {
+  id: string;
+  name: string; // As written on the sheet, e.g. "J. Smith"
+  initials: string;
+  role: string;
+  workingDays: number[]; // 0 = Monday ... 6 = Sunday
+  shiftStart: string; // HH:MM
+  shiftEnd: string; // HH:MM; earlier than shiftStart for an overnight shift
+}
+
+export interface PdfExportOptions {
+  propertyName: string; // Printed at the top of every page
+  department: string;
+  includeSignatures: boolean; // Adds the recorded/verified/reviewed signature block
 }
 
 export type RowData = Record<string, string | number | null>;
 
+// Where a cell value came from, recorded on every change to the sheet
+export type CellSource = 'ai' | 'offline' | 'autofix' | 'manual' | 'import' | 'upload';
+
+export interface CellChange {
+  source: CellSource;
+  at: number; // Epoch ms of the change
+  editor?: string; // Person who made or approved the change
+  previous: RowData[string]; // Value before the change; null for a new cell
+}
+
+// The latest change to a cell; earlier ones are kept in `history`
+export interface CellProvenance extends CellChange {
+  confidence?: CellConfidence; // Scanned cells awaiting manual verification
+  confidenceNote?: string;
+  history?: CellChange[]; // Earlier changes, oldest first
+}
+
+// Provenance of one row, by column key; kept in a list parallel to the rows
+export type RowProvenance = Record<string, CellProvenance>;
+
+// A row removed from the sheet, kept with its values and provenance for the audit log
+export interface DeletedRow {
+  source: CellSource;
+  at: number; // Epoch ms of the deletion
+  editor?: string;
+  position: number; // Index the row had when it was deleted
+  values: RowData;
+  provenance: RowProvenance;
+}
+
 export interface GeneratedResponse {
   rows: RowData[];
   summary?: string;